@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import ArchiveEntry from '@/lib/models/ArchiveEntry';
+import { isAdminRequest } from '@/lib/admin-auth';
+import {
+  ARCHIVE_ANY_QUALITY,
+  ARCHIVE_PAGE_SIZE,
+  exportArchive,
+  importArchive,
+  serializeArchiveEntry,
+} from '@/lib/download-archive';
+import { CUSTOM_QUALITY, QUALITY_PRESETS } from '@/lib/download-options';
+
+export const dynamic = 'force-dynamic';
+
+// Imports larger than this should be split
+const MAX_IMPORT_BYTES = 10 * 1024 * 1024; // 10MB
+
+function unauthorized() {
+  if (!process.env.ADMIN_TOKEN) {
+    return NextResponse.json({ error: 'Archive administration is disabled; set ADMIN_TOKEN to enable it' }, { status: 403 });
+  }
+  return NextResponse.json({ error: 'Admin token required' }, { status: 401 });
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// List the archive newest first, or export it with ?format=text
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized();
+
+  try {
+    await connectToDatabase(); // Will throw error if Atlas connection fails
+
+    const searchParams = request.nextUrl.searchParams;
+    if (searchParams.get('format') === 'text') {
+      const text = await exportArchive();
+      return new NextResponse(text, {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="download-archive.txt"',
+        },
+      });
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const search = searchParams.get('q')?.trim();
+    const filter = search
+      ? { $or: [{ videoId: search }, { title: { $regex: escapeRegExp(search), $options: 'i' } }] }
+      : {};
+
+    const [entries, total] = await Promise.all([
+      ArchiveEntry.find(filter)
+        .sort({ downloadedAt: -1 })
+        .skip((page - 1) * ARCHIVE_PAGE_SIZE)
+        .limit(ARCHIVE_PAGE_SIZE),
+      ArchiveEntry.countDocuments(filter),
+    ]);
+
+    return NextResponse.json({
+      entries: entries.map(serializeArchiveEntry),
+      total,
+      page,
+      pageSize: ARCHIVE_PAGE_SIZE,
+    });
+  } catch (error) {
+    console.error('Archive GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Import a yt-dlp --download-archive file, sent as text/plain or as JSON { text, quality }
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized();
+
+  try {
+    await connectToDatabase(); // Will throw error if Atlas connection fails
+
+    let text: string;
+    let quality = request.nextUrl.searchParams.get('quality') || ARCHIVE_ANY_QUALITY;
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      const body = await request.json();
+      text = typeof body.text === 'string' ? body.text : '';
+      quality = body.quality || quality;
+    } else {
+      text = await request.text();
+    }
+
+    if (!text.trim()) {
+      return NextResponse.json({ error: 'Archive text is required' }, { status: 400 });
+    }
+    if (Buffer.byteLength(text) > MAX_IMPORT_BYTES) {
+      return NextResponse.json(
+        { error: `Archive files are limited to ${MAX_IMPORT_BYTES / (1024 * 1024)}MB per import` },
+        { status: 413 }
+      );
+    }
+    if (quality !== ARCHIVE_ANY_QUALITY && quality !== CUSTOM_QUALITY && !(QUALITY_PRESETS as readonly string[]).includes(quality)) {
+      return NextResponse.json({ error: `Unsupported quality "${quality}"` }, { status: 400 });
+    }
+
+    const result = await importArchive(text, quality);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Archive import error:', error);
+    return NextResponse.json({ error: 'Failed to import archive' }, { status: 500 });
+  }
+}
+
+// Forget one archived download so it can be fetched again
+export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized();
+
+  try {
+    await connectToDatabase(); // Will throw error if Atlas connection fails
+
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id || !/^[a-f0-9]{24}$/i.test(id)) {
+      return NextResponse.json({ error: 'A valid ID is required' }, { status: 400 });
+    }
+
+    const entry = await ArchiveEntry.findByIdAndDelete(id);
+    if (!entry) {
+      return NextResponse.json({ error: 'Archive entry not found' }, { status: 404 });
+    }
+
+    console.log(`Removed ${entry.extractor} ${entry.videoId} (${entry.quality}) from the archive`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Archive DELETE error:', error);
+    return NextResponse.json({ error: 'Failed to remove archive entry' }, { status: 500 });
+  }
+}
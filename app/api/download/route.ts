@@ -1,40 +1,177 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { spawn } from 'child_process';
-import { Readable } from 'stream';
-import { createReadStream, unlinkSync, existsSync } from 'fs';
-import { join } from 'path';
-import { tmpdir } from 'os';
-import { randomUUID } from 'crypto';
 import connectToDatabase from '@/lib/mongodb';
 import DownloadSession from '@/lib/models/DownloadSession';
+import { serializeProgress } from '@/lib/download-progress';
+import { createFileResponse, createZipResponse } from '@/lib/file-response';
+import { isFileExpired } from '@/lib/file-retention';
+import { getBatchBundle, getSessionBundle } from '@/lib/bundles';
+import { DownloadOptions, parseDownloadOptions } from '@/lib/download-options';
+import {
+  DownloadEvent,
+  getDownloadEventsSince,
+  subscribeToDownload,
+} from '@/lib/download-events';
+import {
+  cancelDownloadBatch,
+  createDownloadBatch,
+  getBatchOptionsError,
+  getBatchProgress,
+} from '@/lib/download-batches';
+import { MAX_BATCH_ENTRIES, describePlaylistEntries, parseEntryIndexes } from '@/lib/playlists';
+import { cancelDownload, stopRecording } from '@/lib/download-jobs';
+import { processDownloadQueue } from '@/lib/download-queue';
+import { enqueueDownload } from '@/lib/download-enqueue';
+import {
+  findArchivedKeys,
+  getArchiveKey,
+  serializeArchiveEntry,
+} from '@/lib/download-archive';
+import {
+  parseScheduledFor,
+  rescheduleDownload,
+} from '@/lib/download-scheduler';
+import {
+  describeYtdlpError,
+  fetchMediaInfo,
+  isPlaylistInfo,
+} from '@/lib/ytdlp';
 
 // Using MongoDB Atlas for all data storage
 
-// Get yt-dlp command - try system PATH first, then local exe for development
-function getYtdlpCommand(): string {
-  // For development, check for a local executable first
-  if (process.env.NODE_ENV !== 'production') {
-    const localPathExe = join(process.cwd(), 'yt-dlp.exe');
-    if (existsSync(localPathExe)) {
-      console.log('Using local yt-dlp.exe');
-      return localPathExe;
-    }
-    const localPath = join(process.cwd(), 'yt-dlp');
-    if (existsSync(localPath)) {
-      console.log('Using local yt-dlp');
-      return localPath;
-    }
-  }
-  // For production or if local executable is not found, assume it's in the PATH
-  console.log('Using yt-dlp from PATH');
-  return 'yt-dlp';
-}
-
 export const dynamic = 'force-dynamic';
 
 // Increase timeout for large video downloads (5 minutes)
 export const maxDuration = 300;
 
+const TERMINAL_STATUSES = ['completed', 'error', 'cancelled'];
+
+// How often to ping idle SSE connections and re-check the session in MongoDB
+const SSE_HEARTBEAT_INTERVAL = 15000;
+
+function formatServerSentEvent(type: string, data: any, id?: number): string {
+  const idLine = id !== undefined ? `id: ${id}\n` : '';
+  return `${idLine}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function terminalEventFor(session: any): [string, any] {
+  if (session.status === 'completed') {
+    return ['completed', serializeProgress(session)];
+  }
+  if (session.status === 'cancelled') {
+    return ['cancelled', { status: 'cancelled' }];
+  }
+  return ['failed', { status: 'error', error: session.error }];
+}
+
+// Server-Sent Events stream of a session's progress. Events come from the
+// in-process bus; MongoDB is only read on connect and on idle heartbeats.
+function createEventStream(request: NextRequest, session: any) {
+  const sessionId: string = session.sessionId;
+  const lastEventId =
+    parseInt(
+      request.headers.get('last-event-id') ||
+        request.nextUrl.searchParams.get('lastEventId') ||
+        '0',
+      10
+    ) || 0;
+  const encoder = new TextEncoder();
+
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      let lastSentId = lastEventId;
+      let lastActivity = Date.now();
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const send = (event: DownloadEvent) => {
+        if (event.id <= lastSentId) return;
+        lastSentId = event.id;
+        lastActivity = Date.now();
+        write(formatServerSentEvent(event.type, event.data, event.id));
+        if (event.type === 'completed' || event.type === 'failed' || event.type === 'cancelled') {
+          cleanup();
+        }
+      };
+
+      // Subscribe before replaying so nothing published in between is lost
+      const unsubscribe = subscribeToDownload(sessionId, send);
+
+      const heartbeat = setInterval(async () => {
+        write(': ping\n\n');
+        if (Date.now() - lastActivity < SSE_HEARTBEAT_INTERVAL) return;
+
+        // Nothing heard locally (e.g. the job runs in another process): check MongoDB
+        try {
+          const latest = await DownloadSession.findOne({ sessionId });
+          if (!latest) {
+            write(formatServerSentEvent('failed', { status: 'error', error: 'Session not found' }));
+            cleanup();
+          } else if (TERMINAL_STATUSES.includes(latest.status)) {
+            const [type, data] = terminalEventFor(latest);
+            write(formatServerSentEvent(type, data));
+            cleanup();
+          } else {
+            write(formatServerSentEvent('progress', serializeProgress(latest)));
+          }
+        } catch (error) {
+          console.error('SSE session refresh failed:', error);
+        }
+      }, SSE_HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener('abort', () => cleanup());
+
+      write('retry: 2000\n\n');
+
+      const buffered = getDownloadEventsSince(sessionId, lastEventId);
+      if (buffered && buffered.length > 0) {
+        // A restarted process numbers events from 1 again
+        if (lastEventId > buffered[buffered.length - 1].id) lastSentId = 0;
+        buffered.forEach(send);
+      } else if (TERMINAL_STATUSES.includes(session.status)) {
+        const [type, data] = terminalEventFor(session);
+        write(formatServerSentEvent(type, data));
+        cleanup();
+      } else if (!buffered) {
+        write(formatServerSentEvent('progress', serializeProgress(session)));
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new NextResponse(stream as any, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
 export async function GET(request: NextRequest) {
   try {
     await connectToDatabase(); // Will throw error if Atlas connection fails
@@ -47,6 +184,35 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'ID required' }, { status: 400 });
     }
 
+    // Zip of a download's files, or of every finished entry of a batch
+    if (action === 'bundle') {
+      const session = await DownloadSession.findOne({ sessionId: id });
+      if (session && session.status !== 'completed') {
+        return NextResponse.json({ error: 'Download not ready' }, { status: 400 });
+      }
+
+      const bundle = session ? getSessionBundle(session) : await getBatchBundle(id);
+      if (!bundle) {
+        return NextResponse.json({ error: 'No files available for this bundle' }, { status: 404 });
+      }
+
+      try {
+        return await createZipResponse(request, bundle.entries, bundle.filename);
+      } catch (error) {
+        console.error('Bundle access error:', error);
+        return NextResponse.json({ error: 'Files not found or inaccessible' }, { status: 404 });
+      }
+    }
+
+    // Aggregate progress of a playlist download; `id` is the batch ID
+    if (action === 'batch') {
+      const batch = await getBatchProgress(id);
+      if (!batch) {
+        return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+      }
+      return NextResponse.json(batch);
+    }
+
     const session = await DownloadSession.findOne({ sessionId: id });
 
     if (!session) {
@@ -54,65 +220,26 @@ export async function GET(request: NextRequest) {
     }
 
     if (action === 'progress') {
-      return NextResponse.json({
-        status: session.status,
-        progress: session.progress,
-        error: session.error,
-      });
+      return NextResponse.json(serializeProgress(session));
+    }
+
+    if (action === 'events') {
+      return createEventStream(request, session);
     }
 
     if (action === 'file') {
-      if (session.status !== 'completed' || !session.tempFile) {
+      if (session.status !== 'completed') {
         return NextResponse.json({ error: 'Download not ready' }, { status: 400 });
       }
+      // Same rule as the tokenized URL in /api/files/[token]
+      if (isFileExpired(session)) {
+        return NextResponse.json({ error: 'This file is no longer available' }, { status: 410 });
+      }
 
       try {
-        // Check if file exists and get its size
-        const stats = await new Promise((resolve, reject) => {
-          const fs = require('fs');
-          fs.stat(session.tempFile!, (err: any, stats: any) => {
-            if (err) reject(err);
-            else resolve(stats);
-          });
-        });
-
-        const fileSize = (stats as any).size;
-        console.log(`Streaming file: ${session.filename} (${Math.round(fileSize / (1024 * 1024))}MB)`);
-
-        // Create read stream with optimized chunk size for large files
-        const fileStream = createReadStream(session.tempFile, {
-          highWaterMark: 64 * 1024, // 64KB chunks to prevent memory issues
-        });
-
-        let bytesSent = 0;
-
-        // Clean up after streaming is complete
-        fileStream.on('end', async () => {
-          try {
-            console.log(`File streaming completed: ${session.filename}`);
-            unlinkSync(session.tempFile!);
-            await DownloadSession.deleteOne({ sessionId: id });
-          } catch (err) {
-            console.error('Failed to clean up:', err);
-          }
-        });
-
-        fileStream.on('data', (chunk) => {
-          bytesSent += chunk.length;
-        });
-
-        fileStream.on('error', (error) => {
-          console.error('File streaming error:', error);
-        });
-
-        return new NextResponse(Readable.toWeb(fileStream) as any, {
-          headers: {
-            'Content-Type': session.contentType,
-            'Content-Disposition': `attachment; filename="${session.filename}"`,
-            'Content-Length': fileSize.toString(),
-            'Cache-Control': 'no-cache',
-            'Accept-Ranges': 'bytes',
-          },
+        return await createFileResponse(request, session.tempFile, {
+          contentType: session.contentType,
+          filename: session.filename,
         });
       } catch (error) {
         console.error('File access error:', error);
@@ -127,471 +254,261 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    await connectToDatabase(); // Will throw error if Atlas connection fails
+// Download managers probe with HEAD before requesting ranges
+export async function HEAD(request: NextRequest) {
+  // An event stream has no headers worth probing and would stay open
+  if (request.nextUrl.searchParams.get('action') === 'events') {
+    return new NextResponse(null, { status: 405, headers: { Allow: 'GET' } });
+  }
+  return GET(request);
+}
+
+// Queue the selected entries of a playlist or channel as one batch. Entries
+// are re-extracted here rather than trusted from the client.
+async function createBatch(url: string, body: any, options: DownloadOptions) {
+  const batchError = getBatchOptionsError(options);
+  if (batchError) {
+    return NextResponse.json({ error: batchError }, { status: 400 });
+  }
 
-    const { url, quality } = await request.json();
+  const selection = parseEntryIndexes(body.entryIndexes);
+  if ('error' in selection) {
+    return NextResponse.json({ error: selection.error }, { status: 400 });
+  }
+  const { indexes } = selection;
 
-    if (!url || !quality) {
+  const playlist = await fetchMediaInfo(url, {
+    start: 1,
+    end: indexes ? indexes[indexes.length - 1] : MAX_BATCH_ENTRIES,
+  });
+  if (!isPlaylistInfo(playlist)) {
+    return NextResponse.json(
+      { error: 'This URL is not a playlist or channel' },
+      { status: 400 }
+    );
+  }
+
+  let entries = describePlaylistEntries(playlist, 0).filter(
+    (entry) => !indexes || indexes.includes(entry.index)
+  );
+  if (entries.length === 0) {
+    return NextResponse.json(
+      { error: 'None of the selected entries can be downloaded' },
+      { status: 400 }
+    );
+  }
+
+  let skipped = 0;
+  if (body.skipArchived === true) {
+    const archived = await findArchivedKeys(
+      entries.map((entry) => ({ extractor: entry.extractor || '', videoId: entry.id })),
+      options
+    );
+    const remaining = entries.filter((entry) => !entry.extractor || !archived.has(getArchiveKey(entry.extractor, entry.id)));
+    skipped = entries.length - remaining.length;
+    entries = remaining;
+    if (entries.length === 0) {
       return NextResponse.json(
-        { error: 'URL and quality are required' },
-        { status: 400 }
+        { error: 'All selected entries have already been downloaded', skipped },
+        { status: 409 }
       );
     }
+  }
 
-    // Get video info to check file size
-    const ytdlpCmdInfo = getYtdlpCommand();
-    console.log('Getting video info with command:', ytdlpCmdInfo);
-
-    const videoInfo = await new Promise((resolve, reject) => {
-      const browser = process.env.YT_DLP_BROWSER;
-      const args = ['--dump-json', '--no-playlist'];
-      if (browser) {
-        args.push('--cookies-from-browser', browser);
-        const userDataDir = process.env.YT_DLP_USER_DATA_DIR;
-        if (userDataDir) {
-          args.push('--user-data-dir', userDataDir);
-        }
-      }
-      args.push(url);
-
-      const child = spawn(ytdlpCmdInfo, args, {
-        stdio: ['pipe', 'pipe', 'pipe']
-      });
-
-      let stdout = '';
-      let stderr = '';
-
-      child.stdout.on('data', (data) => {
-        stdout += data.toString();
-      });
-
-      child.stderr.on('data', (data) => {
-        stderr += data.toString();
-      });
-
-      child.on('close', (code) => {
-        console.log('Video info process closed with code:', code);
-        if (code === 0 && stdout) {
-          try {
-            resolve(JSON.parse(stdout));
-          } catch (e) {
-            console.error('Failed to parse video info JSON:', e);
-            reject(new Error('Failed to parse video info'));
-          }
-        } else {
-          console.error('Video info failed - stderr:', stderr);
-          reject(new Error(stderr || `Failed to get video info (exit code: ${code})`));
-        }
-      });
-
-      child.on('error', (error) => {
-        console.error('Video info spawn error:', error);
-        reject(error);
-      });
-
-      // Timeout after 30 seconds
-      setTimeout(() => {
-        console.log('Video info request timed out, killing process');
-        child.kill();
-        reject(new Error('Video info request timed out'));
-      }, 30000);
-    });
+  // Entries are checked and queued in the background; rejections show up
+  // in the batch progress
+  const { batchId, entryCount } = await createDownloadBatch(
+    url,
+    playlist,
+    entries,
+    options,
+    body.skipArchived === true
+  );
+
+  return NextResponse.json({ batchId, entryCount, skipped });
+}
 
-    // Calculate estimated file size for selected quality
-    const duration = (videoInfo as any).duration || 0;
-    let estimatedSize = 0;
-
-    switch (quality) {
-      case '2160p':
-        estimatedSize = (videoInfo as any).filesize || Math.round(duration * 2000000 / 8);
-        break;
-      case '1440p':
-        estimatedSize = (videoInfo as any).filesize || Math.round(duration * 1200000 / 8);
-        break;
-      case '1080p':
-        estimatedSize = (videoInfo as any).filesize || Math.round(duration * 800000 / 8);
-        break;
-      case '720p':
-        estimatedSize = (videoInfo as any).filesize || Math.round(duration * 500000 / 8);
-        break;
-      case '480p':
-        estimatedSize = (videoInfo as any).filesize || Math.round(duration * 300000 / 8);
-        break;
-      case 'audio':
-        estimatedSize = Math.round(duration * 128000 / 8);
-        break;
+// Finish a live recording early, keeping what has been recorded
+async function stopLiveRecording(id: string | null) {
+  if (!id) {
+    return NextResponse.json({ error: 'ID required' }, { status: 400 });
+  }
+
+  const session = await stopRecording(id);
+  if (!session) {
+    const existing = await DownloadSession.findOne({ sessionId: id });
+    if (!existing) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
+    return NextResponse.json(
+      { error: `Only recordings in progress can be stopped (status: ${existing.status})` },
+      { status: 409 }
+    );
+  }
 
-    // File size limits (in bytes)
-    const MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024; // 2GB
-    const WARN_FILE_SIZE = 500 * 1024 * 1024; // 500MB
+  return NextResponse.json({ status: 'stopping' });
+}
 
-    if (estimatedSize > MAX_FILE_SIZE) {
+export async function POST(request: NextRequest) {
+  try {
+    await connectToDatabase(); // Will throw error if Atlas connection fails
+
+    const { searchParams } = request.nextUrl;
+    if (searchParams.get('action') === 'stop') {
+      return await stopLiveRecording(searchParams.get('id'));
+    }
+
+    const body = await request.json();
+    const { url } = body;
+
+    if (!url) {
       return NextResponse.json(
-        { error: `File size too large (${Math.round(estimatedSize / (1024 * 1024))}MB). Maximum allowed size is ${Math.round(MAX_FILE_SIZE / (1024 * 1024))}MB.` },
+        { error: 'URL is required' },
         { status: 400 }
       );
     }
 
-    if (estimatedSize > WARN_FILE_SIZE) {
-      console.warn(`Large file download initiated: ${Math.round(estimatedSize / (1024 * 1024))}MB`);
+    const parsed = parseDownloadOptions(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
     }
+    const { options } = parsed;
 
-    let formatString = '';
-
-    switch (quality) {
-      case '2160p':
-        formatString = 'best[height<=2160]';
-        break;
-      case '1440p':
-        formatString = 'best[height<=1440]';
-        break;
-      case '1080p':
-        formatString = 'best[height<=1080]';
-        break;
-      case '720p':
-        formatString = 'best[height<=720]';
-        break;
-      case '480p':
-        formatString = 'best[height<=480]';
-        break;
-      case 'audio':
-        formatString = 'bestaudio';
-        break;
-      default:
-        formatString = 'best';
+    const schedule = parseScheduledFor(body.scheduledFor);
+    if ('error' in schedule) {
+      return NextResponse.json({ error: schedule.error }, { status: 400 });
     }
-
-    const contentType = quality === 'audio' ? 'audio/mpeg' : 'video/mp4';
-    const fileExtension = quality === 'audio' ? 'mp3' : 'mp4';
-    const filename = `download.${fileExtension}`;
-
-    // Use a local downloads directory instead of system temp (better for containers)
-    const downloadsDir = join(process.cwd(), 'downloads');
-    const tempBaseName = `download-${randomUUID()}`;
-    const tempFile = join(downloadsDir, `${tempBaseName}.${fileExtension}`);
-
-    console.log('Downloads directory:', downloadsDir);
-    console.log('Full temp file path:', tempFile);
-
-    // Ensure downloads directory exists
-    const fs = require('fs');
-    if (!fs.existsSync(downloadsDir)) {
-      console.log('Creating downloads directory');
-      fs.mkdirSync(downloadsDir, { recursive: true });
+    const { scheduledFor } = schedule;
+    if (options.recordUntil && scheduledFor && options.recordUntil <= scheduledFor) {
+      return NextResponse.json(
+        { error: 'The recording stop time must be after the scheduled start' },
+        { status: 400 }
+      );
     }
 
-    const sessionId = randomUUID();
-
-    // Create session in MongoDB Atlas
-    const session = await DownloadSession.create({
-      sessionId,
-      url,
-      quality,
-      status: 'downloading',
-      progress: 0,
-      contentType,
-      filename,
-      tempFile,
-    });
-
-    const args = [
-      '-f',
-      formatString,
-      '-o',
-      tempFile, // Use full path for output
-      '--no-playlist',
-    ];
-
-    const browser = process.env.YT_DLP_BROWSER;
-    if (browser) {
-      args.push('--cookies-from-browser', browser);
-      const userDataDir = process.env.YT_DLP_USER_DATA_DIR;
-      if (userDataDir) {
-        args.push('--user-data-dir', userDataDir);
+    if (body.playlist) {
+      if (scheduledFor) {
+        return NextResponse.json(
+          { error: 'Playlist downloads cannot be scheduled' },
+          { status: 400 }
+        );
       }
+      return await createBatch(url, body, options);
     }
 
-    if (quality === 'audio') {
-      args.push('--extract-audio', '--audio-format', 'mp3');
+    const outcome = await enqueueDownload(url, options, {
+      scheduledFor,
+      skipArchived: body.skipArchived === true,
+    });
+    if (outcome.status === 'rejected') {
+      return NextResponse.json({ error: outcome.error }, { status: 400 });
     }
+    if (outcome.status === 'skipped') {
+      return NextResponse.json({ status: 'skipped', archived: serializeArchiveEntry(outcome.archived) });
+    }
+    if (outcome.status === 'completed') {
+      return NextResponse.json({ id: outcome.sessionId, status: 'completed', cached: true });
+    }
+    if (outcome.status === 'scheduled') {
+      return NextResponse.json({ id: outcome.sessionId, status: 'scheduled', scheduledFor: outcome.scheduledFor });
+    }
+    const { sessionId } = outcome;
 
-    args.push(url);
-
-    const ytdlpCmd = getYtdlpCommand();
-    console.log('Starting yt-dlp with command:', ytdlpCmd, args.join(' '));
-    console.log('Output file will be:', tempFile);
-
-    // Small delay to ensure session is saved
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    // Execute in current directory (don't change cwd in containers)
-    console.log('Spawning yt-dlp process...');
-    const ytdlp = spawn(ytdlpCmd, args);
-
-    // Timeout to kill yt-dlp if it takes too long (30 minutes)
-    const downloadTimeout = setTimeout(() => {
-      console.log('Download timeout reached, killing yt-dlp process');
-      ytdlp.kill();
-    }, 30 * 60 * 1000);
-
-    // Progress simulation timer for fallback
-    let progressTimer: NodeJS.Timeout | null = null;
-    let lastRealProgress = 0;
-    let simulationStep = 0;
-
-    const startProgressSimulation = () => {
-      if (progressTimer) return; // Already running
-
-      progressTimer = setInterval(async () => {
-        try {
-          // Only simulate if we haven't seen real progress recently
-          const timeSinceLastProgress = Date.now() - lastRealProgress;
-          if (timeSinceLastProgress > 5000) { // 5 seconds without real progress
-            simulationStep++;
-            let simulatedProgress = session.progress;
-
-            if (simulationStep === 1 && simulatedProgress < 25) simulatedProgress = 25;
-            else if (simulationStep === 2 && simulatedProgress < 50) simulatedProgress = 50;
-            else if (simulationStep === 3 && simulatedProgress < 75) simulatedProgress = 75;
-            else if (simulationStep >= 4 && simulatedProgress < 90) simulatedProgress = 90;
-
-            if (simulatedProgress > session.progress) {
-              await DownloadSession.updateOne(
-                { sessionId },
-                { progress: simulatedProgress }
-              );
-              console.log('Simulated progress:', simulatedProgress);
-            }
-          }
-        } catch (error) {
-          console.error('Error in progress simulation:', error);
-        }
-      }, 2000); // Update every 2 seconds
-    };
-
-    // Start simulation after a short delay
-    setTimeout(startProgressSimulation, 2000);
-
-    const parseProgress = async (output: string) => {
-      try {
-        let newProgress = session.progress;
-
-        // Try multiple regex patterns for progress with more comprehensive matching
-        let progressMatch = output.match(/\[download\]\s+(\d+(?:\.\d+)?)%/);
-        if (!progressMatch) {
-          progressMatch = output.match(/\[download\]\s+(\d+(?:\.\d+)?)%\s+of/);
-        }
-        if (!progressMatch) {
-          progressMatch = output.match(/(\d+(?:\.\d+)?)%\s+of/);
-        }
-        if (!progressMatch) {
-          progressMatch = output.match(/(\d+(?:\.\d+)?)%/);
-        }
-        if (!progressMatch) {
-          progressMatch = output.match(/(\d+)%/);
-        }
-
-        if (progressMatch) {
-          newProgress = Math.max(newProgress, parseFloat(progressMatch[1]));
-          console.log('Progress match found:', newProgress);
-        }
-
-        // Check for specific yt-dlp progress indicators
-        if (output.includes('[download]') && output.includes('Destination:')) {
-          newProgress = Math.max(newProgress, 5);
-        }
-        if (output.includes('[download]') && output.includes('100%')) {
-          newProgress = 100;
-        }
-        if (output.includes('has already been downloaded')) {
-          newProgress = 100;
-        }
-
-        // Simulate progress if no real progress detected
-        if (newProgress === session.progress && output.includes('[download]')) {
-          // If we see download activity but no percentage, increment gradually
-          if (session.progress < 10) newProgress = 10;
-          else if (session.progress < 25) newProgress = 25;
-          else if (session.progress < 50) newProgress = 50;
-          else if (session.progress < 75) newProgress = 75;
-          else if (session.progress < 100) newProgress = 90;
-        }
-
-        // Update progress if it changed
-        if (newProgress !== session.progress) {
-          newProgress = Math.min(newProgress, 100);
+    await processDownloadQueue();
 
-          await DownloadSession.updateOne(
-            { sessionId },
-            { progress: newProgress }
-          );
+    const queued = await DownloadSession.findOne({ sessionId }, { status: 1, queuePosition: 1 });
 
-          // Reset simulation timer since we got real progress
-          lastRealProgress = Date.now();
-          simulationStep = 0;
+    return NextResponse.json({
+      id: sessionId,
+      status: queued?.status,
+      queuePosition: queued?.queuePosition,
+    });
+  } catch (error: any) {
+    console.error('Download error:', error);
+    const { status, message } = describeYtdlpError(error, 'Failed to initiate download');
+    return NextResponse.json({ error: message }, { status });
+  }
+}
 
-          console.log('Real progress updated to:', newProgress);
-        }
+// Move a scheduled download to another time
+export async function PATCH(request: NextRequest) {
+  try {
+    await connectToDatabase(); // Will throw error if Atlas connection fails
 
-        // Force completion on certain outputs
-        if (output.includes('Merging formats') || output.includes('Deleting original file')) {
-          await DownloadSession.updateOne(
-            { sessionId },
-            { progress: 100 }
-          );
-          console.log('Forced completion progress to 100%');
-        }
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'ID required' }, { status: 400 });
+    }
 
-        // Also force completion when download completes
-        if (output.includes('[download] 100%') && output.includes('in ')) {
-          await DownloadSession.updateOne(
-            { sessionId },
-            { progress: 100 }
-          );
-          console.log('Download 100% detected, setting progress to 100%');
-        }
+    const body = await request.json();
+    const schedule = parseScheduledFor(body.scheduledFor);
+    if ('error' in schedule) {
+      return NextResponse.json({ error: schedule.error }, { status: 400 });
+    }
+    if (!schedule.scheduledFor) {
+      return NextResponse.json({ error: 'scheduledFor is required' }, { status: 400 });
+    }
 
-      } catch (error) {
-        console.error('Error updating progress:', error);
+    const session = await rescheduleDownload(id, schedule.scheduledFor);
+    if (!session) {
+      const existing = await DownloadSession.findOne({ sessionId: id });
+      if (!existing) {
+        return NextResponse.json({ error: 'Session not found' }, { status: 404 });
       }
-    };
-
-    ytdlp.stdout.on('data', async (data) => {
-      const output = data.toString();
-      console.log('yt-dlp stdout:', output.trim()); // Debug logging
-      await parseProgress(output);
-    });
-
-    ytdlp.stderr.on('data', async (data) => {
-      const output = data.toString();
-      console.log('yt-dlp stderr:', output.trim()); // Debug logging
-      await parseProgress(output);
-    });
-
-    ytdlp.on('close', async (code) => {
-      try {
-        console.log('yt-dlp process closed with code:', code);
-
-        // Clear timeout
-        clearTimeout(downloadTimeout);
+      return NextResponse.json(
+        { error: `Only scheduled downloads can be rescheduled (status: ${existing.status})` },
+        { status: 409 }
+      );
+    }
 
-        // Clean up progress timer
-        if (progressTimer) {
-          clearInterval(progressTimer);
-          progressTimer = null;
-        }
+    console.log(`Download ${id} rescheduled for ${schedule.scheduledFor.toISOString()}`);
+    return NextResponse.json(serializeProgress(session));
+  } catch (error) {
+    console.error('PATCH error:', error);
+    return NextResponse.json({ error: 'Failed to reschedule download' }, { status: 500 });
+  }
+}
 
-        // Check if file exists - yt-dlp might add extensions, so look for files starting with tempBaseName
-        let actualTempFile = tempFile;
-        const fs = require('fs');
-
-        // First check if the expected file exists
-        if (existsSync(tempFile)) {
-          actualTempFile = tempFile;
-        } else {
-          // Look for files in downloads directory that start with our base name
-          const files = fs.readdirSync(downloadsDir).filter((file: string) => file.startsWith(tempBaseName));
-          if (files.length > 0) {
-            // Use the first matching file (should be the output file)
-            actualTempFile = join(downloadsDir, files[0]);
-            console.log('Found output file:', actualTempFile);
-          }
-        }
+export async function DELETE(request: NextRequest) {
+  try {
+    await connectToDatabase(); // Will throw error if Atlas connection fails
 
-        const fileExists = existsSync(actualTempFile);
-        console.log('Output file exists:', fileExists);
-
-        if (fileExists) {
-          const stats = await new Promise((resolve, reject) => {
-            fs.stat(actualTempFile, (err: any, stats: any) => {
-              if (err) reject(err);
-              else resolve(stats);
-            });
-          });
-          console.log('Output file size:', (stats as any).size, 'bytes');
-        }
+    const id = request.nextUrl.searchParams.get('id');
+    const batchId = request.nextUrl.searchParams.get('batch');
 
-        if ((code === 0 || code === null) && fileExists) {
-          // Update session with actual file path
-          await DownloadSession.updateOne(
-            { sessionId },
-            { status: 'completed', progress: 100, tempFile: actualTempFile }
-          );
-          console.log('Download completed successfully');
-        } else {
-          const errorMsg = `Download failed with code ${code}${fileExists ? '' : ' (no output file)'}`;
-          await DownloadSession.updateOne(
-            { sessionId },
-            {
-              status: 'error',
-              error: errorMsg
-            }
-          );
-          console.log('Download failed:', errorMsg);
-          // Clean up temp file
-          if (existsSync(actualTempFile)) {
-            try {
-              unlinkSync(actualTempFile);
-            } catch (err) {
-              console.error('Failed to clean up temp file on error:', err);
-            }
-          }
-        }
-      } catch (error) {
-        console.error('Error updating session status:', error);
+    if (batchId) {
+      const cancelled = await cancelDownloadBatch(batchId);
+      if (cancelled === null) {
+        return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
       }
-    });
-
-    ytdlp.on('error', async (error) => {
-      try {
-        console.log('yt-dlp spawn error:', error.message);
-        console.log('Error details:', error);
+      await processDownloadQueue();
+      return NextResponse.json({ status: 'cancelled', cancelled });
+    }
 
-        // Clear timeout
-        clearTimeout(downloadTimeout);
+    if (!id) {
+      return NextResponse.json({ error: 'ID required' }, { status: 400 });
+    }
 
-        // Clean up progress timer
-        if (progressTimer) {
-          clearInterval(progressTimer);
-          progressTimer = null;
-        }
+    // Only queued and in-flight sessions can be cancelled
+    const session = await cancelDownload(id);
 
-        await DownloadSession.updateOne(
-          { sessionId },
-          {
-            status: 'error',
-            error: `Process error: ${error.message}`
-          }
-        );
-        // Clean up any temp files with the base name
-        const fs = require('fs');
-        try {
-          const files = fs.readdirSync(downloadsDir).filter((file: string) => file.startsWith(tempBaseName));
-          for (const file of files) {
-            try {
-              unlinkSync(join(downloadsDir, file));
-              console.log('Cleaned up temp file due to spawn error:', file);
-            } catch (err) {
-              console.error('Failed to clean up temp file on error:', err);
-            }
-          }
-        } catch (err) {
-          console.error('Failed to read downloads directory for cleanup:', err);
-        }
-      } catch (updateError) {
-        console.error('Error updating session on spawn error:', updateError);
+    if (!session) {
+      const existing = await DownloadSession.findOne({ sessionId: id });
+      if (!existing) {
+        return NextResponse.json({ error: 'Session not found' }, { status: 404 });
       }
-    });
+      return NextResponse.json(
+        { error: `Download cannot be cancelled (status: ${existing.status})` },
+        { status: 409 }
+      );
+    }
 
-    return NextResponse.json({ id: sessionId });
-  } catch (error: any) {
-    console.error('Download error:', error);
-    return NextResponse.json(
-      { error: 'Failed to initiate download' },
-      { status: 500 }
-    );
+    // Sessions behind a cancelled queue entry move up
+    await processDownloadQueue();
+
+    return NextResponse.json({ status: 'cancelled' });
+  } catch (error) {
+    console.error('DELETE error:', error);
+    return NextResponse.json({ error: 'Failed to cancel download' }, { status: 500 });
   }
 }
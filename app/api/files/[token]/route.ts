@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import DownloadSession, { IOutputFile } from '@/lib/models/DownloadSession';
+import { createFileResponse } from '@/lib/file-response';
+import { isFileExpired } from '@/lib/file-retention';
+
+export const dynamic = 'force-dynamic';
+
+// Stable, tokenized URL for a completed file. The browser navigates here
+// directly and streams the response to disk via Content-Disposition.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    await connectToDatabase(); // Will throw error if Atlas connection fails
+
+    const session = await DownloadSession.findOne({ downloadToken: params.token });
+
+    if (!session || session.status !== 'completed') {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    if (isFileExpired(session)) {
+      return NextResponse.json({ error: 'This file is no longer available' }, { status: 410 });
+    }
+
+    // Sidecar files (e.g. subtitles) are addressed by name under the same token
+    const requestedName = request.nextUrl.searchParams.get('file');
+    const file = requestedName
+      ? session.outputFiles?.find((output: IOutputFile) => output.name === requestedName)
+      : { path: session.tempFile, contentType: session.contentType, name: session.filename };
+
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    try {
+      return await createFileResponse(request, file.path, {
+        contentType: file.contentType,
+        filename: file.name,
+      });
+    } catch (error) {
+      console.error('File access error:', error);
+      return NextResponse.json({ error: 'File not found or inaccessible' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('File download error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Download managers probe with HEAD before requesting ranges
+export async function HEAD(
+  request: NextRequest,
+  context: { params: { token: string } }
+) {
+  return GET(request, context);
+}
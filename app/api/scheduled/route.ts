@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import DownloadSession from '@/lib/models/DownloadSession';
+
+export const dynamic = 'force-dynamic';
+
+// Upcoming scheduled downloads, soonest first
+export async function GET() {
+  try {
+    await connectToDatabase(); // Will throw error if Atlas connection fails
+
+    const sessions = await DownloadSession.find({ status: 'scheduled' }).sort({ scheduledFor: 1 });
+    return NextResponse.json({
+      downloads: sessions.map((session) => ({
+        id: session.sessionId,
+        url: session.url,
+        title: session.title,
+        quality: session.quality,
+        filename: session.filename,
+        scheduledFor: session.scheduledFor,
+      })),
+    });
+  } catch (error) {
+    console.error('Scheduled GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import Subscription from '@/lib/models/Subscription';
+import DownloadSession from '@/lib/models/DownloadSession';
+import { serializeProgress } from '@/lib/download-progress';
+import {
+  SubscriptionError,
+  checkSubscription,
+  parseSubscriptionInput,
+  serializeSubscription,
+} from '@/lib/subscriptions';
+import { describeYtdlpError } from '@/lib/ytdlp';
+
+export const dynamic = 'force-dynamic';
+
+// Downloads listed with a subscription; older sessions expire after 24 hours anyway
+const RECENT_DOWNLOADS = 50;
+
+type RouteContext = { params: { id: string } };
+
+// A subscription with the downloads its checks queued, newest first
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDatabase(); // Will throw error if Atlas connection fails
+
+    const subscription = await Subscription.findOne({ subscriptionId: params.id });
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    const sessions = await DownloadSession.find({ subscriptionId: params.id })
+      .sort({ queuedAt: -1 })
+      .limit(RECENT_DOWNLOADS);
+
+    return NextResponse.json({
+      ...serializeSubscription(subscription),
+      downloads: sessions.map((session) => ({
+        id: session.sessionId,
+        title: session.title,
+        url: session.url,
+        ...serializeProgress(session),
+      })),
+    });
+  } catch (error) {
+    console.error('Subscription GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDatabase(); // Will throw error if Atlas connection fails
+
+    const body = await request.json();
+    const parsed = parseSubscriptionInput(body, true);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    if (parsed.input.url !== undefined) {
+      return NextResponse.json(
+        { error: 'The URL of a subscription cannot be changed' },
+        { status: 400 }
+      );
+    }
+
+    const { checkIntervalMinutes } = parsed.input;
+    const subscription = await Subscription.findOneAndUpdate(
+      { subscriptionId: params.id },
+      {
+        ...parsed.input,
+        // A new interval applies from now rather than from the last check
+        ...(checkIntervalMinutes && {
+          nextCheckAt: new Date(Date.now() + checkIntervalMinutes * 60 * 1000),
+        }),
+      },
+      { new: true }
+    );
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeSubscription(subscription));
+  } catch (error) {
+    console.error('Subscription PATCH error:', error);
+    return NextResponse.json({ error: 'Failed to update subscription' }, { status: 500 });
+  }
+}
+
+// Check for new uploads now instead of waiting for the next interval
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDatabase(); // Will throw error if Atlas connection fails
+
+    const subscription = await Subscription.findOne({ subscriptionId: params.id });
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    const result = await checkSubscription(subscription);
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Subscription check error:', error);
+    if (error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    const { status, message } = describeYtdlpError(error, 'Failed to check subscription');
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    await connectToDatabase(); // Will throw error if Atlas connection fails
+
+    // Downloads it already queued are left to finish
+    const result = await Subscription.deleteOne({ subscriptionId: params.id });
+    if (result.deletedCount === 0) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ status: 'deleted' });
+  } catch (error) {
+    console.error('Subscription DELETE error:', error);
+    return NextResponse.json({ error: 'Failed to delete subscription' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import Subscription from '@/lib/models/Subscription';
+import {
+  SubscriptionError,
+  createSubscription,
+  parseSubscriptionInput,
+  serializeSubscription,
+} from '@/lib/subscriptions';
+import { describeYtdlpError } from '@/lib/ytdlp';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    await connectToDatabase(); // Will throw error if Atlas connection fails
+
+    const subscriptions = await Subscription.find().sort({ createdAt: 1 });
+    return NextResponse.json({ subscriptions: subscriptions.map(serializeSubscription) });
+  } catch (error) {
+    console.error('Subscriptions GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await connectToDatabase(); // Will throw error if Atlas connection fails
+
+    const body = await request.json();
+    const parsed = parseSubscriptionInput(body, false);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { url, quality, filters, checkIntervalMinutes, enabled, skipArchived } = parsed.input;
+
+    const existing = await Subscription.findOne({ url });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'This channel is already subscribed', id: existing.subscriptionId },
+        { status: 409 }
+      );
+    }
+
+    // The first check runs now: it validates the URL and records existing uploads
+    const subscription = await createSubscription({
+      url: url!,
+      quality: quality!,
+      filters: filters!,
+      checkIntervalMinutes: checkIntervalMinutes!,
+      enabled,
+      skipArchived,
+    });
+
+    return NextResponse.json(serializeSubscription(subscription), { status: 201 });
+  } catch (error: any) {
+    console.error('Subscription create error:', error);
+    if (error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    const { status, message } = describeYtdlpError(error, 'Failed to create subscription');
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -1,36 +1,80 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { join } from 'path';
-import { existsSync } from 'fs';
+import {
+  YtdlpFormat,
+  YtdlpPlaylistInfo,
+  describeYtdlpError,
+  fetchMediaInfo,
+  isPlaylistInfo,
+} from '@/lib/ytdlp';
+import { estimateDownloadSize } from '@/lib/size-estimate';
+import { listSubtitleTracks } from '@/lib/subtitles';
+import { listChapters } from '@/lib/chapters';
+import { describePlaylistEntries, getPlaylistPage } from '@/lib/playlists';
+import connectToDatabase from '@/lib/mongodb';
+import { findArchiveEntries } from '@/lib/download-archive';
+import { describeLiveStream } from '@/lib/live-streams';
+
+function hasCodec(codec?: string | null): boolean {
+  return !!codec && codec !== 'none';
+}
 
-const execPromise = promisify(exec);
+// Client-facing description of one downloadable format
+function describeFormat(format: YtdlpFormat) {
+  return {
+    formatId: format.format_id,
+    container: format.ext,
+    vcodec: hasCodec(format.vcodec) ? format.vcodec : null,
+    acodec: hasCodec(format.acodec) ? format.acodec : null,
+    width: format.width ?? null,
+    height: format.height ?? null,
+    fps: format.fps ?? null,
+    hdr: !!format.dynamic_range && format.dynamic_range !== 'SDR',
+    dynamicRange: format.dynamic_range ?? null,
+    bitrate: format.tbr ?? null, // kbit/s
+    filesize: format.filesize ?? null, // exact, when the platform reports it
+    filesizeApprox: format.filesize_approx ?? null,
+    note: format.format_note ?? null,
+  };
+}
 
-// Get yt-dlp command - try system PATH first, then local exe for development
-function getYtdlpCommand(): string {
-  // For development, check for a local executable first
-  if (process.env.NODE_ENV !== 'production') {
-    const localPathExe = join(process.cwd(), 'yt-dlp.exe');
-    if (existsSync(localPathExe)) {
-      console.log('Using local yt-dlp.exe');
-      return localPathExe;
-    }
-    const localPath = join(process.cwd(), 'yt-dlp');
-    if (existsSync(localPath)) {
-      console.log('Using local yt-dlp');
-      return localPath;
-    }
+// One page of a playlist or channel, entries in playlist order
+function describePlaylist(info: YtdlpPlaylistInfo, page: number, pageSize: number) {
+  const entries = describePlaylistEntries(info, (page - 1) * pageSize);
+  const entryCount = info.playlist_count ?? null;
+  return {
+    type: 'playlist',
+    id: info.id,
+    title: info.title || 'Untitled playlist',
+    uploader: info.uploader || info.channel || 'Unknown',
+    entryCount,
+    page,
+    pageSize,
+    // A full page means there may be more, unless the total says otherwise
+    hasMore: entryCount !== null ? page * pageSize < entryCount : info.entries.length === pageSize,
+    entries,
+  };
+}
+
+// Earlier downloads of the video, for a warning before it is fetched again.
+// Video info is still useful without them, so a database error is not fatal.
+async function describeArchivedDownloads(extractor: string | undefined, videoId: string) {
+  if (!extractor) return [];
+  try {
+    await connectToDatabase();
+    const entries = await findArchiveEntries(extractor, videoId);
+    return entries.map((entry) => ({ quality: entry.quality, downloadedAt: entry.downloadedAt }));
+  } catch (error) {
+    console.error('Archive lookup failed:', error);
+    return [];
   }
-  // For production or if local executable is not found, assume it's in the PATH
-  console.log('Using yt-dlp from PATH');
-  return 'yt-dlp';
 }
 
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
   try {
-    const { url } = await request.json();
+    const body = await request.json();
+    const { url } = body;
 
     if (!url) {
       return NextResponse.json(
@@ -47,38 +91,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const ytdlpCmd = getYtdlpCommand();
-
-    // Get browser from environment variables
-    const browser = process.env.YT_DLP_BROWSER;
-
-    let command = `${ytdlpCmd} --dump-json --no-playlist`;
-
-    if (browser) {
-      command += ` --cookies-from-browser ${browser}`;
-      const userDataDir = process.env.YT_DLP_USER_DATA_DIR;
-      if (userDataDir) {
-        command += ` --user-data-dir "${userDataDir}"`;
-      }
-    }
-
-    command += ` "${url}"`;
-
-    const { stdout, stderr } = await execPromise(command, {
-      timeout: 30000,
-      maxBuffer: 1024 * 1024 * 10,
+    // Spawned with an argv array; the URL never reaches a shell. Playlists
+    // and channels are extracted flat, one page at a time.
+    const { page, pageSize } = getPlaylistPage(body);
+    const mediaInfo = await fetchMediaInfo(url, {
+      start: (page - 1) * pageSize + 1,
+      end: page * pageSize,
     });
 
-    if (stderr && !stdout) {
-      throw new Error(stderr);
+    if (isPlaylistInfo(mediaInfo)) {
+      return NextResponse.json(describePlaylist(mediaInfo, page, pageSize));
     }
-
-    const videoInfo = JSON.parse(stdout);
+    const videoInfo = mediaInfo;
 
     const formats = videoInfo.formats || [];
     const availableQualities = new Set<string>();
 
-    formats.forEach((format: any) => {
+    formats.forEach((format) => {
       if (format.height) {
         if (format.height >= 2160) availableQualities.add('2160p');
         else if (format.height >= 1440) availableQualities.add('1440p');
@@ -88,65 +117,47 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    if (formats.some((f: any) => f.acodec && f.acodec !== 'none')) {
+    if (formats.some((f) => hasCodec(f.acodec))) {
       availableQualities.add('audio');
     }
 
     const response = {
+      type: 'video',
       title: videoInfo.title || 'Unknown Title',
       thumbnail: videoInfo.thumbnail || '',
       duration: videoInfo.duration || 0,
       uploader: videoInfo.uploader || 'Unknown',
       description: videoInfo.description?.substring(0, 200) || '',
+      // Storyboards and other formats without audio or video are left out
+      formats: formats
+        .filter((format) => hasCodec(format.vcodec) || hasCodec(format.acodec))
+        .map(describeFormat),
+      // Manual tracks first; automatic ones are speech recognition or translations
+      subtitles: listSubtitleTracks(videoInfo),
+      chapters: listChapters(videoInfo),
       availableQualities: Array.from(availableQualities).sort((a, b) => {
         const order: { [key: string]: number } = { '2160p': 0, '1440p': 1, '1080p': 2, '720p': 3, '480p': 4, 'audio': 5 };
         return order[a] - order[b];
       }),
-      estimatedSizes: {
-        '2160p': videoInfo.filesize || Math.round((videoInfo.duration || 0) * 2000000 / 8),
-        '1440p': videoInfo.filesize || Math.round((videoInfo.duration || 0) * 1200000 / 8),
-        '1080p': videoInfo.filesize || Math.round((videoInfo.duration || 0) * 800000 / 8),
-        '720p': videoInfo.filesize || Math.round((videoInfo.duration || 0) * 500000 / 8),
-        '480p': videoInfo.filesize || Math.round((videoInfo.duration || 0) * 300000 / 8),
-        'audio': Math.round((videoInfo.duration || 0) * 128000 / 8),
-      },
+      archived: await describeArchivedDownloads(videoInfo.extractor_key || videoInfo.extractor, videoInfo.id),
+      // Set for streams that are on air or upcoming; these can only be recorded
+      live: describeLiveStream(videoInfo),
+      // Built from the formats each preset resolves to; audio assumes the default MP3
+      estimatedSizes: Object.fromEntries(
+        Array.from(availableQualities).map((quality) => [
+          quality,
+          estimateDownloadSize(videoInfo, { quality }),
+        ])
+      ),
     };
 
     return NextResponse.json(response);
   } catch (error: any) {
     console.error('Video info extraction error:', error);
-
-    if (error.message?.includes('not found') || error.code === 'ENOENT') {
-      return NextResponse.json(
-        { error: 'yt-dlp is not installed on the server. Please install it to use this feature.' },
-        { status: 500 }
-      );
-    }
-
-    if (error.message?.includes('Unsupported URL')) {
-      return NextResponse.json(
-        { error: 'This video platform is not supported' },
-        { status: 400 }
-      );
-    }
-
-    if (error.message?.includes('Video unavailable') || error.message?.includes('Private video')) {
-      return NextResponse.json(
-        { error: 'Video is unavailable or private' },
-        { status: 404 }
-      );
-    }
-
-    if (error.killed || error.signal === 'SIGTERM') {
-      return NextResponse.json(
-        { error: 'Request timed out. Please try again.' },
-        { status: 408 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to fetch video information. Please check the URL and try again.' },
-      { status: 500 }
+    const { status, message } = describeYtdlpError(
+      error,
+      'Failed to fetch video information. Please check the URL and try again.'
     );
+    return NextResponse.json({ error: message }, { status });
   }
 }
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
+import Image from "next/image";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -20,6 +21,10 @@ import {
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
 import {
   Download,
   Video,
@@ -36,14 +41,75 @@ import {
   Globe,
   ChevronDown,
   ChevronUp,
+  CalendarClock,
+  Radio,
+  CircleStop,
 } from "lucide-react";
 import {
   formatFileSize,
   formatDuration,
+  formatOrdinal,
+  formatSpeed,
+  getFormatLabel,
+  getPhaseLabel,
+  getAudioFormatLabel,
   getQualityLabel,
+  getUrlStartTime,
   validateUrl,
 } from "@/lib/format-utils";
+import {
+  AUDIO_BITRATES,
+  AUDIO_FORMATS,
+  MAX_RECORDING_HOURS,
+  isLossyAudioFormat,
+} from "@/lib/download-options";
+import { getTargetAudioBitrate } from "@/lib/size-estimate";
+import {
+  PlaylistDownload,
+  PlaylistInfo,
+} from "@/components/playlist-download";
+import { BulkDownload } from "@/components/bulk-download";
+import { DateTimePicker } from "@/components/date-time-picker";
+import { ScheduledDownloads } from "@/components/scheduled-downloads";
 import { toast } from "sonner";
+import { format } from "date-fns";
+
+interface VideoFormat {
+  formatId: string;
+  container: string;
+  vcodec: string | null;
+  acodec: string | null;
+  width: number | null;
+  height: number | null;
+  fps: number | null;
+  hdr: boolean;
+  dynamicRange: string | null;
+  bitrate: number | null;
+  filesize: number | null;
+  filesizeApprox: number | null;
+  note: string | null;
+}
+
+interface SubtitleTrack {
+  language: string;
+  name: string;
+  automatic: boolean;
+  formats: string[];
+}
+
+interface Chapter {
+  index: number;
+  title: string;
+  startTime: number;
+  endTime: number;
+}
+
+interface DownloadedFile {
+  name: string;
+  kind: string;
+  language?: string;
+  url: string;
+}
 
 interface VideoInfo {
   title: string;
@@ -52,12 +118,51 @@ interface VideoInfo {
   uploader: string;
   description: string;
   availableQualities: string[];
-  estimatedSizes: { [key: string]: number };
+  estimatedSizes: { [key: string]: SizeEstimate };
+  formats: VideoFormat[];
+  subtitles: SubtitleTrack[];
+  chapters: Chapter[];
+  archived: ArchivedDownload[];
+  live: LiveStream | null;
+}
+
+// A stream that is on air or upcoming; it is recorded rather than downloaded
+interface LiveStream {
+  status: string;
+  isLive: boolean;
+  isUpcoming: boolean;
+  startsAt: string | null;
+  canRecordFromStart: boolean;
+}
+
+// An earlier download of the same video, from the download archive
+interface ArchivedDownload {
+  quality: string;
+  downloadedAt: string;
+}
+
+interface SizeEstimate {
+  bytes: number;
+  exact: boolean;
 }
 
 interface DownloadState {
   status: "idle" | "fetching" | "ready" | "downloading" | "completed" | "error";
   progress: number;
+  queuePosition?: number;
+  phase?: string;
+  downloadedBytes?: number;
+  totalBytes?: number;
+  speed?: number;
+  eta?: number;
+  fragmentIndex?: number;
+  fragmentCount?: number;
+  recordedSeconds?: number;
+  fileUrl?: string;
+  files?: DownloadedFile[];
+  bundleUrl?: string;
+  fileExpiresAt?: string;
+  filename?: string;
   error?: string;
 }
 
@@ -66,23 +171,74 @@ interface DownloadHistory {
   title: string;
   url: string;
   quality: string;
+  audioFormat?: string;
+  audioBitrate?: number;
   size: number;
   date: Date;
 }
 
+// Archived qualities may carry details, e.g. "audio:mp3@192" or "custom:137+140"
+function describeArchivedQuality(quality: string): string {
+  const [preset, detail] = quality.split(/:(.*)/);
+  if (preset === "audio") {
+    return detail ? ` as audio (${detail.replace("@", ", ")}${detail.includes("@") ? " kbit/s" : ""})` : " as audio";
+  }
+  if (preset === "any") return " (imported archive)";
+  if (preset === "custom") {
+    return detail ? ` with formats ${detail}` : " with custom formats";
+  }
+  return ` at ${preset}`;
+}
+
 export default function Home() {
   const [url, setUrl] = useState("");
   const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
+  const [playlistInfo, setPlaylistInfo] = useState<PlaylistInfo | null>(null);
   const [selectedQuality, setSelectedQuality] = useState("1080p");
+  const [advancedMode, setAdvancedMode] = useState(false);
+  const [selectedVideoFormat, setSelectedVideoFormat] = useState("");
+  const [selectedAudioFormat, setSelectedAudioFormat] = useState("none");
+  const [selectedContainer, setSelectedContainer] = useState("mp4");
+  const [selectedAudioOutput, setSelectedAudioOutput] = useState<
+    (typeof AUDIO_FORMATS)[number]
+  >("mp3");
+  const [selectedAudioBitrate, setSelectedAudioBitrate] = useState("default");
+  const [selectedCodec, setSelectedCodec] = useState("any");
+  const [avoidHdr, setAvoidHdr] = useState(false);
+  const [compatibilityMode, setCompatibilityMode] = useState(false);
+  const [clipEnabled, setClipEnabled] = useState(false);
+  const [clipRange, setClipRange] = useState<number[]>([0, 0]);
+  const [accurateCuts, setAccurateCuts] = useState(false);
+  const [selectedSubtitles, setSelectedSubtitles] = useState<string[]>([]);
+  const [subtitleMode, setSubtitleMode] = useState("sidecar");
+  const [subtitleFormat, setSubtitleFormat] = useState("srt");
+  const [embedMetadata, setEmbedMetadata] = useState(true);
+  const [embedChapters, setEmbedChapters] = useState(true);
+  const [embedThumbnail, setEmbedThumbnail] = useState(true);
+  const [writeInfoJson, setWriteInfoJson] = useState(false);
+  const [writeNfo, setWriteNfo] = useState(false);
+  const [chapterMode, setChapterMode] = useState("none");
+  const [selectedChapters, setSelectedChapters] = useState<number[]>([]);
+  const [recordFromStart, setRecordFromStart] = useState(false);
+  const [recordLimit, setRecordLimit] = useState("none");
+  const [recordMinutes, setRecordMinutes] = useState("60");
+  const [recordUntil, setRecordUntil] = useState<Date | undefined>();
+  const [stopRequested, setStopRequested] = useState(false);
   const [downloadState, setDownloadState] = useState<DownloadState>({
     status: "idle",
     progress: 0,
   });
   const [downloadHistory, setDownloadHistory] = useState<DownloadHistory[]>([]);
   const [showHistory, setShowHistory] = useState(false);
+  const [bulkMode, setBulkMode] = useState(false);
+  const [scheduleEnabled, setScheduleEnabled] = useState(false);
+  const [scheduledFor, setScheduledFor] = useState<Date | undefined>();
+  const [scheduledRefresh, setScheduledRefresh] = useState(0);
   const [showMoreInfo, setShowMoreInfo] = useState(false);
   const [urlCopied, setUrlCopied] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const downloadIdRef = useRef<string | null>(null);
 
   // Load download history from localStorage on mount
   useEffect(() => {
@@ -96,6 +252,28 @@ export default function Home() {
     }
   }, []);
 
+  // Close any open progress stream when leaving the page
+  useEffect(() => {
+    return () => eventSourceRef.current?.close();
+  }, []);
+
+  // Hide the "Download again" link once the server has deleted the file
+  useEffect(() => {
+    if (!downloadState.fileExpiresAt) return;
+    const remaining =
+      new Date(downloadState.fileExpiresAt).getTime() - Date.now();
+    const timer = setTimeout(() => {
+      setDownloadState((prev) => ({
+        ...prev,
+        fileUrl: undefined,
+        files: undefined,
+        bundleUrl: undefined,
+        fileExpiresAt: undefined,
+      }));
+    }, Math.max(remaining, 0));
+    return () => clearTimeout(timer);
+  }, [downloadState.fileExpiresAt]);
+
   // Save download history to localStorage when it changes
   useEffect(() => {
     if (downloadHistory.length > 0) {
@@ -118,6 +296,7 @@ export default function Home() {
 
     setDownloadState({ status: "fetching", progress: 0 });
     setVideoInfo(null);
+    setPlaylistInfo(null);
 
     try {
       const response = await fetch("/api/video-info", {
@@ -132,21 +311,272 @@ export default function Home() {
         throw new Error(data.error || "Failed to fetch video info");
       }
 
+      // Playlists and channels are handled by their own entry picker
+      if (data.type === "playlist") {
+        setPlaylistInfo(data);
+        setDownloadState({ status: "idle", progress: 0 });
+        toast.success(`Playlist loaded: ${data.title}`);
+        return;
+      }
+
       setVideoInfo(data);
+      setAdvancedMode(false);
+      setSelectedVideoFormat("");
+      setSelectedAudioFormat("none");
       if (data.availableQualities.length > 0) {
         setSelectedQuality(data.availableQualities[0]);
       }
+      // A timestamp in the shared link starts the clip there
+      const startTime = getUrlStartTime(url);
+      const clipStart =
+        startTime !== null && startTime < data.duration ? startTime : 0;
+      setClipRange([clipStart, data.duration]);
+      setClipEnabled(clipStart > 0);
+      setSelectedSubtitles([]);
+      setChapterMode("none");
+      setSelectedChapters([]);
+      setRecordFromStart(false);
+      setRecordLimit("none");
+      setRecordUntil(undefined);
       setDownloadState({ status: "ready", progress: 0 });
-      toast.success("Video information loaded successfully");
+      toast.success(
+        data.live
+          ? "Live stream found: choose how to record it"
+          : "Video information loaded successfully"
+      );
     } catch (error: any) {
       setDownloadState({ status: "error", progress: 0, error: error.message });
       toast.error(error.message);
     }
   };
 
+  // The server names files from its filename template; this is only a fallback
+  const getDownloadFilename = (serverFilename?: string) => {
+    if (serverFilename) return serverFilename;
+    const ext =
+      selectedQuality === "audio"
+        ? selectedAudioOutput === "original"
+          ? "m4a"
+          : selectedAudioOutput
+        : selectedContainer;
+    return `download.${ext}`;
+  };
+
+  // Real formats for advanced mode, best first
+  const videoFormats = (videoInfo?.formats || [])
+    .filter((format) => format.vcodec)
+    .sort(
+      (a, b) =>
+        (b.height || 0) - (a.height || 0) || (b.bitrate || 0) - (a.bitrate || 0)
+    );
+  const audioFormats = (videoInfo?.formats || [])
+    .filter((format) => format.acodec && !format.vcodec)
+    .sort((a, b) => (b.bitrate || 0) - (a.bitrate || 0));
+
+  const getFormatSize = (formatId: string) => {
+    const format = videoInfo?.formats.find((f) => f.formatId === formatId);
+    return format ? format.filesize || format.filesizeApprox || 0 : 0;
+  };
+
+  const isFormatSizeExact = (formatId: string) =>
+    !!videoInfo?.formats.find((f) => f.formatId === formatId)?.filesize;
+
+  // Bitrate only applies to lossy formats; lossless ones ignore the choice
+  const getAudioBitrate = () =>
+    isLossyAudioFormat(selectedAudioOutput) &&
+    selectedAudioBitrate !== "default"
+      ? parseInt(selectedAudioBitrate, 10)
+      : undefined;
+
+  // Re-encoded audio is sized by its target bitrate, not by the source stream
+  const getAudioOutputSize = () => {
+    const bitrate = getTargetAudioBitrate(
+      selectedAudioOutput,
+      getAudioBitrate()
+    );
+    return bitrate && videoInfo
+      ? Math.round((videoInfo.duration * bitrate) / 8)
+      : null;
+  };
+
+  const getFullSelectedSize = () =>
+    advancedMode
+      ? getFormatSize(selectedVideoFormat) +
+        (selectedAudioFormat !== "none"
+          ? getFormatSize(selectedAudioFormat)
+          : 0)
+      : (selectedQuality === "audio" && getAudioOutputSize()) ||
+        videoInfo?.estimatedSizes[selectedQuality]?.bytes ||
+        0;
+
+  // A clip is estimated as its share of the whole video
+  const getSelectedSize = () => {
+    const size = getFullSelectedSize();
+    if (!clipEnabled || !videoInfo?.duration) return size;
+    return Math.round(
+      (size * (clipRange[1] - clipRange[0])) / videoInfo.duration
+    );
+  };
+
+  // Exact only when every selected stream reports its real file size and
+  // nothing is re-encoded afterwards
+  const isSelectedSizeExact = () =>
+    clipEnabled ||
+    (compatibilityMode && (advancedMode || selectedQuality !== "audio"))
+      ? false
+      : advancedMode
+      ? isFormatSizeExact(selectedVideoFormat) &&
+        (selectedAudioFormat === "none" ||
+          isFormatSizeExact(selectedAudioFormat))
+      : selectedQuality === "audio"
+      ? selectedAudioOutput === "original" &&
+        !!videoInfo?.estimatedSizes.audio?.exact
+      : !!videoInfo?.estimatedSizes[selectedQuality]?.exact;
+
+  const handleAdvancedModeChange = (enabled: boolean) => {
+    setAdvancedMode(enabled);
+    if (enabled && !selectedVideoFormat) {
+      setSelectedVideoFormat(videoFormats[0]?.formatId || "");
+      setSelectedAudioFormat(audioFormats[0]?.formatId || "none");
+    }
+  };
+
+  const handleCompatibilityModeChange = (enabled: boolean) => {
+    setCompatibilityMode(enabled);
+    // Compatibility mode always re-encodes into MP4
+    if (enabled) setSelectedContainer("mp4");
+  };
+
+  const getClipRequest = () =>
+    clipEnabled
+      ? { clipStart: clipRange[0], clipEnd: clipRange[1], accurateCuts }
+      : {};
+
+  const getSubtitleRequest = () =>
+    selectedSubtitles.length > 0
+      ? {
+          subtitleLanguages: selectedSubtitles,
+          subtitleMode,
+          subtitleFormat,
+        }
+      : {};
+
+  const toggleSubtitle = (language: string, checked: boolean) => {
+    setSelectedSubtitles((prev) =>
+      checked
+        ? [...prev, language]
+        : prev.filter((selected) => selected !== language)
+    );
+  };
+
+  // Embedding needs a video container that can carry subtitle streams
+  const canEmbedSubtitles =
+    (advancedMode || selectedQuality !== "audio") &&
+    selectedContainer !== "webm";
+
+  // Cover art cannot go into WebM video or WAV audio
+  const canEmbedThumbnail =
+    !advancedMode && selectedQuality === "audio"
+      ? selectedAudioOutput !== "wav"
+      : selectedContainer !== "webm";
+
+  const getMetadataRequest = () => ({
+    embedMetadata,
+    embedChapters,
+    embedThumbnail: embedThumbnail && canEmbedThumbnail,
+    writeInfoJson,
+    writeNfo,
+  });
+
+  const toggleChapter = (index: number, checked: boolean) => {
+    setSelectedChapters((prev) =>
+      checked
+        ? [...prev, index].sort((a, b) => a - b)
+        : prev.filter((selected) => selected !== index)
+    );
+  };
+
+  const getChapterRequest = () =>
+    chapterMode === "split"
+      ? { chapterMode }
+      : chapterMode === "select"
+      ? { chapterMode, chapterIndexes: selectedChapters }
+      : {};
+
+  // Live streams are recorded up to an optional duration or stop time
+  const getLiveRequest = () =>
+    videoInfo?.live
+      ? {
+          liveRecording: true,
+          liveFromStart:
+            recordFromStart && videoInfo.live.canRecordFromStart,
+          ...(recordLimit === "duration" && {
+            recordDuration: Math.round(parseFloat(recordMinutes) * 60),
+          }),
+          ...(recordLimit === "until" &&
+            recordUntil && { recordUntil: recordUntil.toISOString() }),
+        }
+      : {};
+
+  const getDownloadRequest = () => ({
+    ...getLiveRequest(),
+    ...getClipRequest(),
+    ...getChapterRequest(),
+    ...getSubtitleRequest(),
+    ...getMetadataRequest(),
+    ...getSelectedFormatRequest(),
+  });
+
+  const getSelectedFormatRequest = () =>
+    advancedMode
+      ? {
+          url,
+          videoFormatId: selectedVideoFormat,
+          audioFormatId:
+            selectedAudioFormat !== "none" ? selectedAudioFormat : undefined,
+          container: selectedContainer,
+          compatibilityMode,
+        }
+      : selectedQuality === "audio"
+      ? {
+          url,
+          quality: selectedQuality,
+          audioFormat: selectedAudioOutput,
+          audioBitrate: getAudioBitrate(),
+        }
+      : {
+          url,
+          quality: selectedQuality,
+          container: selectedContainer,
+          codecPreference: selectedCodec,
+          avoidHdr,
+          compatibilityMode,
+        };
+
   const handleDownload = async () => {
     if (!videoInfo) return;
+    if (chapterMode === "select" && selectedChapters.length === 0) {
+      toast.error("Select at least one chapter");
+      return;
+    }
+    if (scheduleEnabled && !scheduledFor) {
+      toast.error("Pick a date and time for the download");
+      return;
+    }
+    if (
+      videoInfo.live &&
+      recordLimit === "duration" &&
+      !(parseFloat(recordMinutes) > 0)
+    ) {
+      toast.error("Enter how many minutes to record");
+      return;
+    }
+    if (videoInfo.live && recordLimit === "until" && !recordUntil) {
+      toast.error("Pick a time to stop recording");
+      return;
+    }
 
+    setStopRequested(false);
     setDownloadState({ status: "downloading", progress: 0 });
 
     try {
@@ -154,7 +584,11 @@ export default function Home() {
       const startResponse = await fetch("/api/download", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url, quality: selectedQuality }),
+        body: JSON.stringify({
+          ...getDownloadRequest(),
+          ...(scheduleEnabled &&
+            scheduledFor && { scheduledFor: scheduledFor.toISOString() }),
+        }),
       });
 
       if (!startResponse.ok) {
@@ -162,10 +596,109 @@ export default function Home() {
         throw new Error(errorData.error || "Failed to start download");
       }
 
-      const { id } = await startResponse.json();
+      const { id, queuePosition, status } = await startResponse.json();
+
+      // Scheduled downloads are followed in the list, not here
+      if (status === "scheduled") {
+        setDownloadState({ status: "ready", progress: 0 });
+        setScheduleEnabled(false);
+        setScheduledFor(undefined);
+        setScheduledRefresh((prev) => prev + 1);
+        toast.success(
+          `Download scheduled for ${scheduledFor?.toLocaleString()}`
+        );
+        return;
+      }
+
+      downloadIdRef.current = id;
+      setDownloadState({ status: "downloading", progress: 0, queuePosition });
+
+      const handleProgress = (progressData: any) => {
+        setDownloadState({
+          status: "downloading",
+          progress: progressData.progress ?? 0,
+          queuePosition:
+            progressData.status === "queued"
+              ? progressData.queuePosition
+              : undefined,
+          phase: progressData.phase,
+          downloadedBytes: progressData.downloadedBytes,
+          totalBytes: progressData.totalBytes,
+          speed: progressData.speed,
+          eta: progressData.eta,
+          fragmentIndex: progressData.fragmentIndex,
+          fragmentCount: progressData.fragmentCount,
+          recordedSeconds: progressData.recordedSeconds,
+        });
+      };
 
-      // Poll for progress
+      const handleFailure = (error: any) => {
+        setDownloadState({
+          status: "error",
+          progress: 0,
+          error: error.message,
+        });
+        toast.error(error.message);
+      };
+
+      const handleCancelled = () => {
+        setDownloadState({ status: "ready", progress: 0 });
+      };
+
+      const handleCompleted = (completion: any) => {
+        downloadIdRef.current = null;
+        if (!completion.fileUrl) {
+          handleFailure(new Error("Downloaded file is no longer available"));
+          return;
+        }
+
+        // Navigate to the file so the browser streams it straight to disk.
+        // Several files (chapters, sidecars) arrive as one zip.
+        const a = document.createElement("a");
+        a.href = completion.bundleUrl || completion.fileUrl;
+        if (!completion.bundleUrl) {
+          a.download = getDownloadFilename(completion.filename);
+        }
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+
+        // Add to download history
+        const newHistoryItem: DownloadHistory = {
+          id,
+          title: videoInfo.title,
+          url,
+          quality: advancedMode ? "custom" : selectedQuality,
+          ...(!advancedMode &&
+            selectedQuality === "audio" && {
+              audioFormat: selectedAudioOutput,
+              audioBitrate: getAudioBitrate(),
+            }),
+          // A recording's size is only known once it has ended
+          size: videoInfo.live ? completion.fileSize || 0 : getSelectedSize(),
+          date: new Date(),
+        };
+        setDownloadHistory((prev) => [newHistoryItem, ...prev].slice(0, 10)); // Keep only last 10 items
+
+        setDownloadState({
+          status: "completed",
+          progress: 100,
+          fileUrl: completion.fileUrl,
+          files: completion.files,
+          bundleUrl: completion.bundleUrl,
+          fileExpiresAt: completion.fileExpiresAt,
+          filename: completion.filename,
+        });
+        toast.success(
+          videoInfo.live
+            ? "Recording saved successfully!"
+            : "Download completed successfully!"
+        );
+      };
+
+      // Poll for progress (fallback when EventSource is unavailable)
       const pollProgress = async () => {
+        if (downloadIdRef.current !== id) return; // Cancelled or reset
         try {
           const progressResponse = await fetch(
             `/api/download?action=progress&id=${id}`
@@ -177,70 +710,133 @@ export default function Home() {
           const progressData = await progressResponse.json();
 
           if (progressData.status === "completed") {
-            // Download the file
-            const fileResponse = await fetch(
-              `/api/download?action=file&id=${id}`
-            );
-            if (!fileResponse.ok) {
-              throw new Error("Failed to download file");
-            }
-
-            const blob = await fileResponse.blob();
-            const downloadUrl = URL.createObjectURL(blob);
-            const a = document.createElement("a");
-            a.href = downloadUrl;
-            a.download = `${videoInfo.title}.${
-              selectedQuality === "audio" ? "mp3" : "mp4"
-            }`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(downloadUrl);
-
-            // Add to download history
-            const newHistoryItem: DownloadHistory = {
-              id,
-              title: videoInfo.title,
-              url,
-              quality: selectedQuality,
-              size: videoInfo.estimatedSizes[selectedQuality],
-              date: new Date(),
-            };
-            setDownloadHistory((prev) => [newHistoryItem, ...prev].slice(0, 10)); // Keep only last 10 items
-
-            setDownloadState({ status: "completed", progress: 100 });
-            toast.success("Download completed successfully!");
+            handleCompleted(progressData);
           } else if (progressData.status === "error") {
             throw new Error(progressData.error || "Download failed");
+          } else if (progressData.status === "cancelled") {
+            handleCancelled();
           } else {
-            setDownloadState({
-              status: "downloading",
-              progress: progressData.progress,
-            });
+            handleProgress(progressData);
             setTimeout(pollProgress, 1000); // Poll again in 1 second
           }
         } catch (error: any) {
-          setDownloadState({
-            status: "error",
-            progress: 0,
-            error: error.message,
-          });
-          toast.error(error.message);
+          handleFailure(error);
+        }
+      };
+
+      if (typeof window.EventSource === "undefined") {
+        pollProgress();
+        return;
+      }
+
+      // Stream progress over SSE; the browser resends Last-Event-ID on reconnect
+      const events = new EventSource(`/api/download?action=events&id=${id}`);
+      eventSourceRef.current = events;
+
+      const closeEvents = () => {
+        events.close();
+        if (eventSourceRef.current === events) {
+          eventSourceRef.current = null;
         }
       };
 
-      pollProgress();
+      events.addEventListener("progress", (event) => {
+        handleProgress(JSON.parse((event as MessageEvent).data));
+      });
+      events.addEventListener("completed", (event) => {
+        closeEvents();
+        handleCompleted(JSON.parse((event as MessageEvent).data));
+      });
+      events.addEventListener("failed", (event) => {
+        closeEvents();
+        const data = JSON.parse((event as MessageEvent).data);
+        handleFailure(new Error(data.error || "Download failed"));
+      });
+      events.addEventListener("cancelled", () => {
+        closeEvents();
+        handleCancelled();
+      });
+      events.onerror = () => {
+        // A closed stream will not reconnect on its own (e.g. non-200 reply)
+        if (events.readyState === EventSource.CLOSED) {
+          closeEvents();
+          pollProgress();
+        }
+      };
     } catch (error: any) {
       setDownloadState({ status: "error", progress: 0, error: error.message });
       toast.error(error.message);
     }
   };
 
+  // Stop the server-side job; the progress stream reports the cancellation
+  const cancelActiveDownload = async () => {
+    const id = downloadIdRef.current;
+    if (!id) return false;
+    downloadIdRef.current = null;
+    eventSourceRef.current?.close();
+    eventSourceRef.current = null;
+
+    try {
+      const response = await fetch(`/api/download?id=${id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok && response.status !== 409) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to cancel download");
+      }
+      return true;
+    } catch (error: any) {
+      toast.error(error.message);
+      return false;
+    }
+  };
+
+  const handleCancel = async () => {
+    if (await cancelActiveDownload()) {
+      setDownloadState({ status: "ready", progress: 0 });
+      toast.success("Download cancelled");
+    }
+  };
+
+  // Ask the server to end the recording; the file is finalized and then
+  // delivered like any other completed download
+  const handleStopRecording = async () => {
+    const id = downloadIdRef.current;
+    if (!id) return;
+    setStopRequested(true);
+
+    try {
+      const response = await fetch(`/api/download?action=stop&id=${id}`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to stop recording");
+      }
+      toast.success("Stopping the recording and saving the file...");
+    } catch (error: any) {
+      setStopRequested(false);
+      toast.error(error.message);
+    }
+  };
+
   const handleReset = () => {
+    if (downloadState.status === "downloading") {
+      cancelActiveDownload();
+    }
+    eventSourceRef.current?.close();
+    eventSourceRef.current = null;
+    downloadIdRef.current = null;
     setUrl("");
     setVideoInfo(null);
+    setPlaylistInfo(null);
     setDownloadState({ status: "idle", progress: 0 });
     setSelectedQuality("1080p");
+    setAdvancedMode(false);
+    setSelectedVideoFormat("");
+    setSelectedAudioFormat("none");
+    setSelectedContainer("mp4");
     inputRef.current?.focus();
   };
 
@@ -302,6 +898,15 @@ export default function Home() {
                   download
                 </CardDescription>
               </div>
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  Bulk
+                  <Switch
+                    checked={bulkMode}
+                    onCheckedChange={setBulkMode}
+                    disabled={downloadState.status === "downloading"}
+                  />
+                </label>
               <Button
                 variant="ghost"
                 size="sm"
@@ -311,6 +916,7 @@ export default function Home() {
                 <History className="w-5 h-5 mr-1" />
                 History
               </Button>
+              </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -340,7 +946,7 @@ export default function Home() {
                           {item.title}
                         </p>
                         <p className="text-xs text-slate-500">
-                          {getQualityLabel(item.quality)} •{" "}
+                          {getQualityLabel(item.quality, item)} •{" "}
                           {formatFileSize(item.size)} •{" "}
                           {new Date(item.date).toLocaleDateString()}
                         </p>
@@ -352,87 +958,96 @@ export default function Home() {
               </div>
             )}
 
-            <div className="space-y-4">
-              <div className="flex flex-col sm:flex-row gap-3">
-                <div className="relative flex-1">
-                  <Input
-                    ref={inputRef}
-                    type="url"
-                    placeholder="Paste video URL here (YouTube, Vimeo, etc.)"
-                    value={url}
-                    onChange={(e) => setUrl(e.target.value)}
-                    onKeyPress={(e) => e.key === "Enter" && handleFetchInfo()}
+            <ScheduledDownloads refreshKey={scheduledRefresh} />
+
+            {/* Kept mounted so the list survives switching modes */}
+            <div className={bulkMode ? "" : "hidden"}>
+              <BulkDownload />
+            </div>
+
+            {!bulkMode && (
+              <div className="space-y-4">
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <div className="relative flex-1">
+                    <Input
+                      ref={inputRef}
+                      type="url"
+                      placeholder="Paste video URL here (YouTube, Vimeo, etc.)"
+                      value={url}
+                      onChange={(e) => setUrl(e.target.value)}
+                      onKeyPress={(e) => e.key === "Enter" && handleFetchInfo()}
+                      disabled={
+                        downloadState.status === "fetching" ||
+                        downloadState.status === "downloading"
+                      }
+                      className="text-base h-12 flex-1 border-slate-300 focus:border-blue-500 focus:ring-blue-500/20 shadow-sm hover:shadow-md transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed pr-10"
+                    />
+                    {url && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="absolute right-1 top-1/2 transform -translate-y-1/2 h-10 w-10 p-0 text-slate-400 hover:text-blue-600"
+                        onClick={handleCopyUrl}
+                        disabled={urlCopied}
+                      >
+                        {urlCopied ? (
+                          <CheckCircle2 className="w-4 h-4" />
+                        ) : (
+                          <Copy className="w-4 h-4" />
+                        )}
+                      </Button>
+                    )}
+                  </div>
+                  <Button
+                    onClick={handleFetchInfo}
                     disabled={
                       downloadState.status === "fetching" ||
                       downloadState.status === "downloading"
                     }
-                    className="text-base h-12 flex-1 border-slate-300 focus:border-blue-500 focus:ring-blue-500/20 shadow-sm hover:shadow-md transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed pr-10"
-                  />
-                  {url && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="absolute right-1 top-1/2 transform -translate-y-1/2 h-10 w-10 p-0 text-slate-400 hover:text-blue-600"
-                      onClick={handleCopyUrl}
-                      disabled={urlCopied}
-                    >
-                      {urlCopied ? (
-                        <CheckCircle2 className="w-4 h-4" />
-                      ) : (
-                        <Copy className="w-4 h-4" />
-                      )}
-                    </Button>
-                  )}
+                    size="lg"
+                    className="px-6 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 sm:w-auto w-full disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+                  >
+                    {downloadState.status === "fetching" ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Loading...
+                      </>
+                    ) : (
+                      <>
+                        <Info className="w-4 h-4 mr-2" />
+                        Get Info
+                      </>
+                    )}
+                  </Button>
                 </div>
-                <Button
-                  onClick={handleFetchInfo}
-                  disabled={
-                    downloadState.status === "fetching" ||
-                    downloadState.status === "downloading"
-                  }
-                  size="lg"
-                  className="px-6 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 sm:w-auto w-full disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
-                >
-                  {downloadState.status === "fetching" ? (
-                    <>
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Loading...
-                    </>
-                  ) : (
-                    <>
-                      <Info className="w-4 h-4 mr-2" />
-                      Get Info
-                    </>
-                  )}
-                </Button>
-              </div>
 
-              <div className="flex flex-wrap gap-2">
-                <Badge variant="outline" className="text-xs bg-blue-50 border-blue-200 text-blue-700">
-                  YouTube
-                </Badge>
-                <Badge variant="outline" className="text-xs bg-cyan-50 border-cyan-200 text-cyan-700">
-                  Vimeo
-                </Badge>
-                <Badge variant="outline" className="text-xs bg-teal-50 border-teal-200 text-teal-700">
-                  Dailymotion
-                </Badge>
-                <Badge variant="outline" className="text-xs bg-slate-100 border-slate-200 text-slate-700">
-                  Twitter
-                </Badge>
-                <Badge variant="outline" className="text-xs bg-slate-100 border-slate-200 text-slate-700">
-                  TikTok
-                </Badge>
-                <Badge variant="outline" className="text-xs bg-slate-100 border-slate-200 text-slate-700">
-                  Instagram
-                </Badge>
-                <Badge variant="outline" className="text-xs bg-gradient-to-r from-blue-50 to-cyan-50 border-blue-200 text-blue-700">
-                  +200 more
-                </Badge>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline" className="text-xs bg-blue-50 border-blue-200 text-blue-700">
+                    YouTube
+                  </Badge>
+                  <Badge variant="outline" className="text-xs bg-cyan-50 border-cyan-200 text-cyan-700">
+                    Vimeo
+                  </Badge>
+                  <Badge variant="outline" className="text-xs bg-teal-50 border-teal-200 text-teal-700">
+                    Dailymotion
+                  </Badge>
+                  <Badge variant="outline" className="text-xs bg-slate-100 border-slate-200 text-slate-700">
+                    Twitter
+                  </Badge>
+                  <Badge variant="outline" className="text-xs bg-slate-100 border-slate-200 text-slate-700">
+                    TikTok
+                  </Badge>
+                  <Badge variant="outline" className="text-xs bg-slate-100 border-slate-200 text-slate-700">
+                    Instagram
+                  </Badge>
+                  <Badge variant="outline" className="text-xs bg-gradient-to-r from-blue-50 to-cyan-50 border-blue-200 text-blue-700">
+                    +200 more
+                  </Badge>
+                </div>
               </div>
-            </div>
+            )}
 
-            {downloadState.status === "error" && (
+            {!bulkMode && downloadState.status === "error" && (
               <Alert
                 variant="destructive"
                 className="border-red-200 bg-red-50/50 shadow-sm animate-in fade-in slide-in-from-top-2 duration-300"
@@ -444,14 +1059,25 @@ export default function Home() {
               </Alert>
             )}
 
-            {videoInfo && (
+            {!bulkMode && playlistInfo && (
+              <PlaylistDownload
+                key={playlistInfo.id}
+                url={url}
+                playlist={playlistInfo}
+                onReset={handleReset}
+              />
+            )}
+
+            {!bulkMode && videoInfo && (
               <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
                 <div className="flex flex-col sm:flex-row gap-6 p-6 bg-gradient-to-r from-slate-50 to-blue-50/50 rounded-xl border border-slate-200/50 shadow-sm hover:shadow-md transition-all duration-300">
                   {videoInfo.thumbnail && (
                     <div className="relative group">
-                      <img
+                      <Image
                         src={videoInfo.thumbnail}
                         alt={videoInfo.title}
+                        width={192}
+                        height={128}
                         className="w-full sm:w-48 h-32 object-cover rounded-lg shadow-lg group-hover:shadow-xl transition-all duration-300"
                       />
                       <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
@@ -465,19 +1091,44 @@ export default function Home() {
                       {videoInfo.uploader}
                     </p>
                     <div className="flex flex-wrap gap-4 text-sm text-slate-500">
-                      <div className="flex items-center gap-1">
-                        <Video className="w-4 h-4" />
-                        <span>{formatDuration(videoInfo.duration)}</span>
-                      </div>
-                      {videoInfo.estimatedSizes[selectedQuality] && (
+                      {videoInfo.live ? (
+                        <div className="flex items-center gap-2">
+                          <Badge
+                            className={
+                              videoInfo.live.isLive
+                                ? "bg-red-600 hover:bg-red-600 text-white"
+                                : "bg-amber-500 hover:bg-amber-500 text-white"
+                            }
+                          >
+                            <Radio className="w-3 h-3 mr-1" />
+                            {videoInfo.live.isLive ? "LIVE" : "UPCOMING"}
+                          </Badge>
+                          {videoInfo.live.isUpcoming &&
+                            videoInfo.live.startsAt && (
+                              <span>
+                                Starts{" "}
+                                {format(
+                                  new Date(videoInfo.live.startsAt),
+                                  "d MMMM yyyy 'at' HH:mm"
+                                )}
+                              </span>
+                            )}
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-1">
+                          <Video className="w-4 h-4" />
+                          <span>{formatDuration(videoInfo.duration)}</span>
+                        </div>
+                      )}
+                      {getSelectedSize() > 0 && (
                         <div className="flex items-center gap-1">
                           <Download className="w-4 h-4" />
                           <span>
-                            ≈{" "}
+                            {!isSelectedSizeExact() && "≈ "}
                             {formatFileSize(
-                              videoInfo.estimatedSizes[selectedQuality]
+                              getSelectedSize()
                             )}
-                            {videoInfo.estimatedSizes[selectedQuality] >
+                            {getSelectedSize() >
                               500 * 1024 * 1024 && (
                               <span className="ml-2 text-amber-600 font-medium">
                                 (Large file)
@@ -487,19 +1138,34 @@ export default function Home() {
                         </div>
                       )}
                     </div>
-                    {videoInfo.estimatedSizes[selectedQuality] >
+                    {getSelectedSize() >
                       500 * 1024 * 1024 && (
                       <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
                         <p className="text-sm text-amber-800">
                           ⚠️ This is a large file (
                           {formatFileSize(
-                            videoInfo.estimatedSizes[selectedQuality]
+                            getSelectedSize()
                           )}
                           ). Download may take several minutes depending on your
                           connection speed.
                         </p>
                       </div>
                     )}
+                    {videoInfo.archived?.length > 0 && (
+                      <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-1">
+                        {videoInfo.archived.map((entry) => (
+                          <p
+                            key={entry.quality}
+                            className="text-sm text-blue-800 flex items-center gap-2"
+                          >
+                            <History className="w-4 h-4 shrink-0" />
+                            You downloaded this on{" "}
+                            {format(new Date(entry.downloadedAt), "d MMMM yyyy")}
+                            {describeArchivedQuality(entry.quality)}
+                          </p>
+                        ))}
+                      </div>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -529,77 +1195,507 @@ export default function Home() {
                 </div>
 
                 <div className="space-y-3">
-                  <label className="text-sm font-medium text-slate-700">
-                    Select Quality
-                  </label>
-                  <Select
-                    value={selectedQuality}
-                    onValueChange={setSelectedQuality}
-                  >
-                    <SelectTrigger className="h-12">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {videoInfo.availableQualities.map((quality) => (
-                        <SelectItem key={quality} value={quality}>
-                          <div className="flex items-center justify-between w-full">
-                            <span>{getQualityLabel(quality)}</span>
-                            <span className="text-xs text-slate-500 ml-4">
-                              {formatFileSize(
-                                videoInfo.estimatedSizes[quality]
-                              )}
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium text-slate-700">
+                      {advancedMode ? "Select Formats" : "Select Quality"}
+                    </label>
+                    {videoInfo.formats.length > 0 && (
+                      <label className="flex items-center gap-2 text-sm text-slate-600">
+                        Advanced
+                        <Switch
+                          checked={advancedMode}
+                          onCheckedChange={handleAdvancedModeChange}
+                          disabled={downloadState.status === "downloading"}
+                        />
+                      </label>
+                    )}
+                  </div>
+                  {advancedMode ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <Select
+                        value={selectedVideoFormat}
+                        onValueChange={setSelectedVideoFormat}
+                      >
+                        <SelectTrigger className="h-12 sm:col-span-2">
+                          <SelectValue placeholder="Video format" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {videoFormats.map((format) => (
+                            <SelectItem
+                              key={format.formatId}
+                              value={format.formatId}
+                            >
+                              <div className="flex items-center justify-between w-full">
+                                <span>{getFormatLabel(format)}</span>
+                                <span className="text-xs text-slate-500 ml-4">
+                                  {format.filesize
+                                    ? formatFileSize(format.filesize)
+                                    : format.filesizeApprox
+                                    ? `≈ ${formatFileSize(format.filesizeApprox)}`
+                                    : ""}
+                                </span>
+                              </div>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={selectedContainer}
+                        onValueChange={setSelectedContainer}
+                        disabled={compatibilityMode}
+                      >
+                        <SelectTrigger className="h-12">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="mp4">MP4</SelectItem>
+                          <SelectItem value="mkv">MKV</SelectItem>
+                          <SelectItem value="webm">WebM</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={selectedAudioFormat}
+                        onValueChange={setSelectedAudioFormat}
+                      >
+                        <SelectTrigger className="h-12 sm:col-span-3">
+                          <SelectValue placeholder="Audio format" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">
+                            No separate audio stream
+                          </SelectItem>
+                          {audioFormats.map((format) => (
+                            <SelectItem
+                              key={format.formatId}
+                              value={format.formatId}
+                            >
+                              <div className="flex items-center justify-between w-full">
+                                <span>{getFormatLabel(format)}</span>
+                                <span className="text-xs text-slate-500 ml-4">
+                                  {format.filesize
+                                    ? formatFileSize(format.filesize)
+                                    : format.filesizeApprox
+                                    ? `≈ ${formatFileSize(format.filesizeApprox)}`
+                                    : ""}
+                                </span>
+                              </div>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ) : (
+                    <Select
+                      value={selectedQuality}
+                      onValueChange={setSelectedQuality}
+                    >
+                      <SelectTrigger className="h-12">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {videoInfo.availableQualities.map((quality) => (
+                          <SelectItem key={quality} value={quality}>
+                            <div className="flex items-center justify-between w-full">
+                              <span>{getQualityLabel(quality)}</span>
+                              <span className="text-xs text-slate-500 ml-4">
+                                {!videoInfo.estimatedSizes[quality]?.exact &&
+                                  "≈ "}
+                                {formatFileSize(
+                                  videoInfo.estimatedSizes[quality]?.bytes || 0
+                                )}
+                              </span>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {!advancedMode && selectedQuality !== "audio" && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <Select
+                        value={selectedContainer}
+                        onValueChange={setSelectedContainer}
+                        disabled={compatibilityMode}
+                      >
+                        <SelectTrigger className="h-12">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="mp4">MP4</SelectItem>
+                          <SelectItem value="mkv">MKV</SelectItem>
+                          <SelectItem value="webm">WebM</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={selectedCodec}
+                        onValueChange={setSelectedCodec}
+                        disabled={compatibilityMode}
+                      >
+                        <SelectTrigger className="h-12">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="any">Any codec</SelectItem>
+                          <SelectItem value="av1">Prefer AV1</SelectItem>
+                          <SelectItem value="vp9">Prefer VP9</SelectItem>
+                          <SelectItem value="h264">Prefer H.264</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <label className="flex items-center gap-2 text-sm text-slate-600">
+                        <Switch
+                          checked={avoidHdr}
+                          onCheckedChange={setAvoidHdr}
+                          disabled={downloadState.status === "downloading"}
+                        />
+                        Avoid HDR
+                      </label>
+                    </div>
+                  )}
+                  {(advancedMode || selectedQuality !== "audio") && (
+                    <label className="flex items-center gap-2 text-sm text-slate-600">
+                      <Switch
+                        checked={compatibilityMode}
+                        onCheckedChange={handleCompatibilityModeChange}
+                        disabled={downloadState.status === "downloading"}
+                      />
+                      Maximum compatibility (re-encode to H.264/AAC MP4, slower)
+                    </label>
+                  )}
+                  {videoInfo.duration > 0 && (
+                    <div className="space-y-3">
+                      <label className="flex items-center gap-2 text-sm text-slate-600">
+                        <Switch
+                          checked={clipEnabled}
+                          onCheckedChange={setClipEnabled}
+                          disabled={
+                            downloadState.status === "downloading" ||
+                            chapterMode !== "none"
+                          }
+                        />
+                        Download only a clip
+                      </label>
+                      {clipEnabled && (
+                        <div className="space-y-3 p-3 bg-slate-50 rounded-lg border border-slate-200">
+                          <Slider
+                            min={0}
+                            max={videoInfo.duration}
+                            step={1}
+                            minStepsBetweenThumbs={1}
+                            value={clipRange}
+                            onValueChange={setClipRange}
+                            disabled={downloadState.status === "downloading"}
+                          />
+                          <div className="flex justify-between text-xs text-slate-600">
+                            <span>Start {formatDuration(clipRange[0])}</span>
+                            <span>
+                              {formatDuration(clipRange[1] - clipRange[0])}{" "}
+                              selected
                             </span>
+                            <span>End {formatDuration(clipRange[1])}</span>
+                          </div>
+                          <label className="flex items-center gap-2 text-sm text-slate-600">
+                            <Switch
+                              checked={accurateCuts}
+                              onCheckedChange={setAccurateCuts}
+                              disabled={downloadState.status === "downloading"}
+                            />
+                            Frame-accurate cuts (re-encodes, slower)
+                          </label>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {videoInfo.chapters.length > 0 && (
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between gap-3">
+                        <label className="text-sm font-medium text-slate-700">
+                          Chapters ({videoInfo.chapters.length})
+                        </label>
+                        <Select
+                          value={chapterMode}
+                          onValueChange={setChapterMode}
+                          disabled={clipEnabled}
+                        >
+                          <SelectTrigger className="h-10 w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Single file</SelectItem>
+                            <SelectItem value="split">
+                              One file per chapter
+                            </SelectItem>
+                            <SelectItem value="select">
+                              Selected chapters only
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {chapterMode !== "none" && (
+                        <ScrollArea className="h-40 rounded-lg border border-slate-200 p-3">
+                          <div className="space-y-2">
+                            {videoInfo.chapters.map((chapter) => (
+                              <label
+                                key={chapter.index}
+                                className="flex items-center gap-2 text-sm text-slate-600"
+                              >
+                                {chapterMode === "select" && (
+                                  <Checkbox
+                                    checked={selectedChapters.includes(
+                                      chapter.index
+                                    )}
+                                    onCheckedChange={(checked) =>
+                                      toggleChapter(
+                                        chapter.index,
+                                        checked === true
+                                      )
+                                    }
+                                    disabled={
+                                      downloadState.status === "downloading"
+                                    }
+                                  />
+                                )}
+                                <span className="text-xs text-slate-400 w-12">
+                                  {formatDuration(chapter.startTime)}
+                                </span>
+                                <span className="flex-1">{chapter.title}</span>
+                                <span className="text-xs text-slate-400">
+                                  {formatDuration(
+                                    chapter.endTime - chapter.startTime
+                                  )}
+                                </span>
+                              </label>
+                            ))}
                           </div>
-                        </SelectItem>
+                        </ScrollArea>
+                      )}
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-slate-700">
+                      Metadata
+                    </label>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {[
+                        {
+                          label: "Embed title, uploader and description",
+                          checked: embedMetadata,
+                          onChange: setEmbedMetadata,
+                          disabled: false,
+                        },
+                        {
+                          label: "Embed chapter markers",
+                          checked: embedChapters,
+                          onChange: setEmbedChapters,
+                          disabled: false,
+                        },
+                        {
+                          label: "Embed cover art",
+                          checked: embedThumbnail && canEmbedThumbnail,
+                          onChange: setEmbedThumbnail,
+                          disabled: !canEmbedThumbnail,
+                        },
+                        {
+                          label: "Save .info.json",
+                          checked: writeInfoJson,
+                          onChange: setWriteInfoJson,
+                          disabled: false,
+                        },
+                        {
+                          label: "Save Kodi .nfo",
+                          checked: writeNfo,
+                          onChange: setWriteNfo,
+                          disabled: false,
+                        },
+                      ].map((option) => (
+                        <label
+                          key={option.label}
+                          className="flex items-center gap-2 text-sm text-slate-600"
+                        >
+                          <Switch
+                            checked={option.checked}
+                            onCheckedChange={option.onChange}
+                            disabled={
+                              option.disabled ||
+                              downloadState.status === "downloading"
+                            }
+                          />
+                          {option.label}
+                        </label>
                       ))}
-                    </SelectContent>
-                  </Select>
+                    </div>
+                  </div>
+                  {videoInfo.subtitles.length > 0 && (
+                    <div className="space-y-3">
+                      <label className="text-sm font-medium text-slate-700">
+                        Subtitles
+                      </label>
+                      <ScrollArea className="h-32 rounded-lg border border-slate-200 p-3">
+                        <div className="space-y-2">
+                          {videoInfo.subtitles.map((track) => (
+                            <label
+                              key={track.language}
+                              className="flex items-center gap-2 text-sm text-slate-600"
+                            >
+                              <Checkbox
+                                checked={selectedSubtitles.includes(
+                                  track.language
+                                )}
+                                onCheckedChange={(checked) =>
+                                  toggleSubtitle(track.language, checked === true)
+                                }
+                                disabled={downloadState.status === "downloading"}
+                              />
+                              <span>{track.name}</span>
+                              <span className="text-xs text-slate-400">
+                                {track.language}
+                              </span>
+                              {track.automatic && (
+                                <Badge variant="secondary" className="text-xs">
+                                  Auto-generated
+                                </Badge>
+                              )}
+                            </label>
+                          ))}
+                        </div>
+                      </ScrollArea>
+                      {selectedSubtitles.length > 0 && (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                          <Select
+                            value={subtitleMode}
+                            onValueChange={setSubtitleMode}
+                          >
+                            <SelectTrigger className="h-12">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="sidecar">
+                                Separate subtitle files
+                              </SelectItem>
+                              <SelectItem
+                                value="embed"
+                                disabled={!canEmbedSubtitles}
+                              >
+                                Embed in the video (MP4/MKV)
+                              </SelectItem>
+                              <SelectItem value="only">
+                                Subtitles only, no video
+                              </SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Select
+                            value={subtitleFormat}
+                            onValueChange={setSubtitleFormat}
+                            disabled={subtitleMode === "embed"}
+                          >
+                            <SelectTrigger className="h-12">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="srt">SRT</SelectItem>
+                              <SelectItem value="vtt">WebVTT</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {!advancedMode && selectedQuality === "audio" && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <Select
+                        value={selectedAudioOutput}
+                        onValueChange={(value) =>
+                          setSelectedAudioOutput(
+                            value as (typeof AUDIO_FORMATS)[number]
+                          )
+                        }
+                      >
+                        <SelectTrigger className="h-12">
+                          <SelectValue placeholder="Audio format" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {AUDIO_FORMATS.map((format) => (
+                            <SelectItem key={format} value={format}>
+                              {getAudioFormatLabel(format)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={selectedAudioBitrate}
+                        onValueChange={setSelectedAudioBitrate}
+                        disabled={!isLossyAudioFormat(selectedAudioOutput)}
+                      >
+                        <SelectTrigger className="h-12">
+                          <SelectValue placeholder="Bitrate" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="default">Default bitrate</SelectItem>
+                          {AUDIO_BITRATES.map((bitrate) => (
+                            <SelectItem key={bitrate} value={String(bitrate)}>
+                              {bitrate} kbps
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                 </div>
 
                 {downloadState.status === "downloading" && (
                   <div className="space-y-3 p-4 bg-blue-50/50 rounded-lg border border-blue-200/50 animate-in fade-in duration-300">
                     <div className="flex justify-between text-sm">
                       <span className="text-slate-700 font-medium">
-                        {downloadState.progress < 25
-                          ? "Starting download..."
-                          : downloadState.progress < 50
-                          ? "Downloading..."
-                          : downloadState.progress < 75
-                          ? "Almost there..."
-                          : "Finalizing..."}
-                      </span>
-                      <span className="font-bold text-blue-600">
-                        {downloadState.progress.toFixed(1)}%
+                        {downloadState.queuePosition
+                          ? `Waiting in queue • ${formatOrdinal(
+                              downloadState.queuePosition
+                            )} in line`
+                          : videoInfo.live && !downloadState.phase
+                          ? videoInfo.live.isUpcoming
+                            ? "Waiting for the stream to start"
+                            : "Connecting to the stream"
+                          : stopRequested &&
+                            downloadState.phase === "recording"
+                          ? "Stopping and saving the recording"
+                          : getPhaseLabel(downloadState.phase)}
                       </span>
+                      {/* A recording without a limit has no percentage to show */}
+                      {(!videoInfo.live || recordLimit !== "none") && (
+                        <span className="font-bold text-blue-600">
+                          {downloadState.progress.toFixed(1)}%
+                        </span>
+                      )}
                     </div>
                     <Progress
                       value={downloadState.progress}
                       className="h-3 bg-blue-100"
                     />
-                    <div className="flex justify-center space-x-2">
-                      {[25, 50, 75, 100].map((milestone) => (
-                        <div
-                          key={milestone}
-                          className={`w-2 h-2 rounded-full transition-colors duration-300 ${
-                            downloadState.progress >= milestone
-                              ? "bg-blue-500"
-                              : "bg-blue-200"
-                          }`}
-                        />
-                      ))}
+                    <div className="flex flex-wrap justify-between gap-2 text-xs text-slate-500">
+                      <span>
+                        {downloadState.phase === "recording" &&
+                          downloadState.recordedSeconds != null &&
+                          `Recorded ${formatDuration(
+                            downloadState.recordedSeconds
+                          )} • `}
+                        {downloadState.downloadedBytes != null &&
+                          (downloadState.totalBytes
+                            ? `${formatFileSize(
+                                downloadState.downloadedBytes
+                              )} of ${formatFileSize(downloadState.totalBytes)}`
+                            : formatFileSize(downloadState.downloadedBytes))}
+                        {downloadState.fragmentCount
+                          ? ` • Fragment ${downloadState.fragmentIndex ?? 0}/${
+                              downloadState.fragmentCount
+                            }`
+                          : ""}
+                      </span>
+                      <span>
+                        {downloadState.speed != null &&
+                          formatSpeed(downloadState.speed)}
+                        {downloadState.eta != null &&
+                          ` • ${formatDuration(downloadState.eta)} left`}
+                      </span>
                     </div>
-                    <p className="text-xs text-slate-500 text-center">
-                      {downloadState.progress < 25
-                        ? "Initializing download"
-                        : downloadState.progress < 50
-                        ? "Transferring data"
-                        : downloadState.progress < 75
-                        ? "Processing content"
-                        : downloadState.progress < 100
-                        ? "Completing download"
-                        : "Download completed!"}
-                    </p>
-                    {videoInfo?.estimatedSizes[selectedQuality] >
+                    {getSelectedSize() >
                       500 * 1024 * 1024 && (
                       <p className="text-xs text-amber-600 text-center mt-2">
                         Large file download in progress - please be patient
@@ -614,10 +1710,129 @@ export default function Home() {
                     <AlertDescription className="text-green-800 font-medium">
                       Download completed successfully! Check your downloads
                       folder.
+                      {downloadState.fileUrl && (
+                        <a
+                          href={downloadState.fileUrl}
+                          download={getDownloadFilename(downloadState.filename)}
+                          className="ml-2 inline-flex items-center gap-1 text-green-700 underline underline-offset-2 hover:text-green-900"
+                        >
+                          <Download className="w-4 h-4" />
+                          Download again
+                        </a>
+                      )}
+                      {downloadState.files?.map((file) => (
+                        <a
+                          key={file.url}
+                          href={file.url}
+                          download={getDownloadFilename(file.name)}
+                          className="ml-2 inline-flex items-center gap-1 text-green-700 underline underline-offset-2 hover:text-green-900"
+                        >
+                          <Download className="w-4 h-4" />
+                          {file.kind === "subtitle"
+                            ? `Subtitles (${file.language})`
+                            : file.kind === "chapter"
+                            ? file.name
+                            : `Metadata (.${file.name.endsWith(".nfo") ? "nfo" : "info.json"})`}
+                        </a>
+                      ))}
+                      {downloadState.bundleUrl && (
+                        <a
+                          href={downloadState.bundleUrl}
+                          className="ml-2 inline-flex items-center gap-1 text-green-700 underline underline-offset-2 hover:text-green-900"
+                        >
+                          <Download className="w-4 h-4" />
+                          All files (.zip)
+                        </a>
+                      )}
                     </AlertDescription>
                   </Alert>
                 )}
 
+                {videoInfo.live && (
+                  <div className="space-y-3 p-4 bg-red-50/50 rounded-lg border border-red-200/50">
+                    <label className="flex items-center gap-2 text-sm text-slate-600">
+                      <Switch
+                        checked={
+                          recordFromStart && videoInfo.live.canRecordFromStart
+                        }
+                        onCheckedChange={setRecordFromStart}
+                        disabled={
+                          downloadState.status === "downloading" ||
+                          !videoInfo.live.canRecordFromStart
+                        }
+                      />
+                      {videoInfo.live.canRecordFromStart
+                        ? "Record from the start of the stream"
+                        : "Recording starts now (this platform cannot record from the start)"}
+                    </label>
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                      <Select
+                        value={recordLimit}
+                        onValueChange={setRecordLimit}
+                        disabled={downloadState.status === "downloading"}
+                      >
+                        <SelectTrigger className="h-10 sm:w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">
+                            Until the stream ends
+                          </SelectItem>
+                          <SelectItem value="duration">
+                            For a set duration
+                          </SelectItem>
+                          <SelectItem value="until">Until a set time</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {recordLimit === "duration" && (
+                        <label className="flex items-center gap-2 text-sm text-slate-600">
+                          <Input
+                            type="number"
+                            min={1}
+                            max={MAX_RECORDING_HOURS * 60}
+                            value={recordMinutes}
+                            onChange={(e) => setRecordMinutes(e.target.value)}
+                            disabled={downloadState.status === "downloading"}
+                            className="h-10 w-24"
+                          />
+                          minutes
+                        </label>
+                      )}
+                      {recordLimit === "until" && (
+                        <DateTimePicker
+                          value={recordUntil}
+                          onChange={setRecordUntil}
+                          disabled={downloadState.status === "downloading"}
+                          className="h-10 sm:w-72"
+                        />
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-500">
+                      Recordings stop after {MAX_RECORDING_HOURS} hours at most.
+                      Stopping early keeps everything recorded so far.
+                    </p>
+                  </div>
+                )}
+
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    <Switch
+                      checked={scheduleEnabled}
+                      onCheckedChange={setScheduleEnabled}
+                      disabled={downloadState.status === "downloading"}
+                    />
+                    Schedule for later
+                  </label>
+                  {scheduleEnabled && (
+                    <DateTimePicker
+                      value={scheduledFor}
+                      onChange={setScheduledFor}
+                      disabled={downloadState.status === "downloading"}
+                      className="h-10 sm:w-72"
+                    />
+                  )}
+                </div>
+
                 <div className="flex flex-col sm:flex-row gap-3">
                   <Button
                     onClick={handleDownload}
@@ -628,13 +1843,23 @@ export default function Home() {
                     {downloadState.status === "downloading" ? (
                       <>
                         <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                        Downloading...
+                        {videoInfo.live ? "Recording..." : "Downloading..."}
                       </>
                     ) : downloadState.status === "completed" ? (
                       <>
                         <CheckCircle2 className="w-5 h-5 mr-2 text-green-600" />
                         Download Complete
                       </>
+                    ) : scheduleEnabled ? (
+                      <>
+                        <CalendarClock className="w-5 h-5 mr-2" />
+                        {videoInfo.live ? "Schedule Recording" : "Schedule Download"}
+                      </>
+                    ) : videoInfo.live ? (
+                      <>
+                        <Radio className="w-5 h-5 mr-2" />
+                        Start Recording
+                      </>
                     ) : (
                       <>
                         <Download className="w-5 h-5 mr-2" />
@@ -642,6 +1867,29 @@ export default function Home() {
                       </>
                     )}
                   </Button>
+                  {downloadState.status === "downloading" &&
+                    downloadState.phase === "recording" && (
+                      <Button
+                        onClick={handleStopRecording}
+                        disabled={stopRequested}
+                        size="lg"
+                        className="h-12 sm:w-auto w-full bg-red-600 hover:bg-red-700 text-white transition-all duration-200 hover:shadow-md"
+                      >
+                        <CircleStop className="w-5 h-5 mr-2" />
+                        {stopRequested ? "Saving..." : "Stop & Save"}
+                      </Button>
+                    )}
+                  {downloadState.status === "downloading" && (
+                    <Button
+                      onClick={handleCancel}
+                      variant="outline"
+                      size="lg"
+                      className="h-12 sm:w-auto w-full border-red-200 text-red-600 hover:border-red-400 hover:bg-red-50 hover:text-red-700 transition-all duration-200 hover:shadow-md"
+                    >
+                      <X className="w-5 h-5 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
                   <Button
                     onClick={handleReset}
                     variant="outline"
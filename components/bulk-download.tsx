@@ -0,0 +1,437 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Download,
+  ListPlus,
+  Loader as Loader2,
+  RotateCw,
+  X,
+} from "lucide-react";
+import {
+  formatOrdinal,
+  getPhaseLabel,
+  getQualityLabel,
+  getUrlKey,
+  parseUrlList,
+} from "@/lib/format-utils";
+import { QUALITY_PRESETS } from "@/lib/download-options";
+import { toast } from "sonner";
+
+type BulkItemStatus =
+  | "pending"
+  | "submitting"
+  | "queued"
+  | "downloading"
+  | "completed"
+  | "skipped"
+  | "error"
+  | "cancelled";
+
+interface BulkItem {
+  key: string;
+  url: string;
+  quality: string;
+  skipArchived: boolean;
+  status: BulkItemStatus;
+  id?: string;
+  progress: number;
+  queuePosition?: number;
+  phase?: string;
+  filename?: string;
+  fileUrl?: string;
+  error?: string;
+}
+
+// One interval polls every active item; dozens of SSE streams would not help
+const BULK_POLL_INTERVAL = 2000;
+
+const ACTIVE_STATUSES: BulkItemStatus[] = ["queued", "downloading"];
+
+function getStatusBadge(item: BulkItem) {
+  switch (item.status) {
+    case "pending":
+      return <Badge variant="outline">Waiting</Badge>;
+    case "submitting":
+      return <Badge variant="outline">Starting</Badge>;
+    case "queued":
+      return (
+        <Badge variant="outline">
+          {item.queuePosition
+            ? `${formatOrdinal(item.queuePosition)} in queue`
+            : "Queued"}
+        </Badge>
+      );
+    case "downloading":
+      return <Badge variant="secondary">{getPhaseLabel(item.phase)}</Badge>;
+    case "completed":
+      return <Badge className="bg-green-600 hover:bg-green-600">Done</Badge>;
+    case "cancelled":
+      return <Badge variant="outline">Cancelled</Badge>;
+    case "skipped":
+      return <Badge variant="secondary">Already downloaded</Badge>;
+    default:
+      return <Badge variant="destructive">Failed</Badge>;
+  }
+}
+
+export function BulkDownload() {
+  const [text, setText] = useState("");
+  const [quality, setQuality] = useState("1080p");
+  const [skipArchived, setSkipArchived] = useState(true);
+  const [items, setItems] = useState<BulkItem[]>([]);
+  const itemsRef = useRef<BulkItem[]>([]);
+  const submittingRef = useRef(false);
+
+  const updateItem = (key: string, update: Partial<BulkItem>) => {
+    itemsRef.current = itemsRef.current.map((item) =>
+      item.key === key ? { ...item, ...update } : item
+    );
+    setItems(itemsRef.current);
+  };
+
+  const setAllItems = (next: BulkItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  };
+
+  // Items are started one at a time: each request resolves the video first
+  const submitPending = async () => {
+    if (submittingRef.current) return;
+    submittingRef.current = true;
+    try {
+      let next;
+      while (
+        (next = itemsRef.current.find((item) => item.status === "pending"))
+      ) {
+        updateItem(next.key, { status: "submitting", error: undefined });
+        try {
+          const response = await fetch("/api/download", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              url: next.url,
+              quality: next.quality,
+              skipArchived: next.skipArchived,
+            }),
+          });
+          const data = await response.json();
+          if (!response.ok) {
+            throw new Error(data.error || "Failed to start download");
+          }
+          if (data.status === "skipped") {
+            updateItem(next.key, {
+              status: "skipped",
+              filename: data.archived.title,
+              progress: 100,
+            });
+            continue;
+          }
+          updateItem(next.key, {
+            id: data.id,
+            status: data.status === "downloading" ? "downloading" : "queued",
+            queuePosition: data.queuePosition,
+            progress: 0,
+          });
+        } catch (error: any) {
+          updateItem(next.key, { status: "error", error: error.message });
+        }
+      }
+    } finally {
+      submittingRef.current = false;
+    }
+  };
+
+  const pollActive = async () => {
+    const active = itemsRef.current.filter(
+      (item) => item.id && ACTIVE_STATUSES.includes(item.status)
+    );
+    await Promise.all(
+      active.map(async (item) => {
+        try {
+          const response = await fetch(
+            `/api/download?action=progress&id=${item.id}`
+          );
+          const data = await response.json();
+          if (!response.ok) {
+            throw new Error(data.error || "Failed to get progress");
+          }
+          // Cancelled or retried while the request was in flight
+          const current = itemsRef.current.find((i) => i.key === item.key);
+          if (current?.id !== item.id) return;
+          updateItem(item.key, {
+            status: data.status,
+            progress: data.progress || 0,
+            queuePosition: data.queuePosition,
+            phase: data.phase,
+            filename: data.filename,
+            fileUrl: data.fileUrl,
+            error: data.error,
+          });
+        } catch (error) {
+          console.error("Bulk progress failed:", error);
+        }
+      })
+    );
+  };
+
+  // The interval always calls the latest pollActive
+  const pollActiveRef = useRef(pollActive);
+  pollActiveRef.current = pollActive;
+
+  useEffect(() => {
+    const timer = setInterval(() => pollActiveRef.current(), BULK_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleAdd = () => {
+    const { urls, invalid, duplicates } = parseUrlList(text);
+    const existing = new Set(itemsRef.current.map((item) => item.key));
+    const added = urls
+      .map((url) => ({ url, key: getUrlKey(url) }))
+      .filter(({ key }) => !existing.has(key));
+    const alreadyQueued = urls.length - added.length;
+
+    if (added.length > 0) {
+      setAllItems([
+        ...itemsRef.current,
+        ...added.map(({ url, key }) => ({
+          key,
+          url,
+          quality,
+          skipArchived,
+          status: "pending" as const,
+          progress: 0,
+        })),
+      ]);
+      submitPending();
+    }
+
+    // Unsupported lines stay in the box so they can be fixed
+    setText(invalid.join("\n"));
+
+    const skipped = duplicates + alreadyQueued;
+    if (added.length > 0) {
+      toast.success(
+        `Added ${added.length} link${added.length === 1 ? "" : "s"}${
+          skipped > 0 ? ` (${skipped} duplicate${skipped === 1 ? "" : "s"} skipped)` : ""
+        }`
+      );
+    } else if (skipped > 0) {
+      toast.info("All links are already in the list");
+    }
+    if (invalid.length > 0) {
+      toast.error(
+        `${invalid.length} line${invalid.length === 1 ? " is" : "s are"} not a supported video URL`
+      );
+    }
+  };
+
+  const handleRetry = (item: BulkItem) => {
+    updateItem(item.key, {
+      status: "pending",
+      // Retrying a skipped item means downloading it again anyway
+      skipArchived: item.status === "skipped" ? false : item.skipArchived,
+      id: undefined,
+      progress: 0,
+      error: undefined,
+      fileUrl: undefined,
+    });
+    submitPending();
+  };
+
+  const handleCancel = async (item: BulkItem) => {
+    if (!item.id) return;
+    try {
+      const response = await fetch(`/api/download?id=${item.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to cancel download");
+      }
+      updateItem(item.key, { status: "cancelled", progress: 0 });
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleRemove = (item: BulkItem) => {
+    setAllItems(itemsRef.current.filter((i) => i.key !== item.key));
+  };
+
+  const handleClearFinished = () => {
+    setAllItems(
+      itemsRef.current.filter(
+        (item) => !["completed", "skipped", "cancelled"].includes(item.status)
+      )
+    );
+  };
+
+  const completedCount = items.filter((item) => item.status === "completed").length;
+
+  return (
+    <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <Textarea
+        placeholder={"Paste one video URL per line\nhttps://www.youtube.com/watch?v=...\nhttps://vimeo.com/..."}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={6}
+        className="text-sm font-mono border-slate-300 focus:border-blue-500 focus:ring-blue-500/20"
+      />
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Select value={quality} onValueChange={setQuality}>
+          <SelectTrigger className="h-12 sm:w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {QUALITY_PRESETS.map((preset) => (
+              <SelectItem key={preset} value={preset}>
+                {getQualityLabel(preset)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={handleAdd}
+          disabled={!text.trim()}
+          size="lg"
+          className="flex-1 h-12 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <ListPlus className="w-5 h-5 mr-2" />
+          Add to Queue
+        </Button>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-slate-600">
+        <Switch checked={skipArchived} onCheckedChange={setSkipArchived} />
+        Skip videos already downloaded at this quality
+      </label>
+
+      {items.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm text-slate-600">
+            <span>
+              {completedCount} of {items.length} done
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleClearFinished}
+              className="text-slate-500 hover:text-blue-600 hover:bg-blue-50"
+            >
+              Clear finished
+            </Button>
+          </div>
+          <div className="rounded-lg border border-slate-200">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Video</TableHead>
+                  <TableHead className="w-32">Status</TableHead>
+                  <TableHead className="w-40">Progress</TableHead>
+                  <TableHead className="w-24 text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.key}>
+                    <TableCell className="max-w-0">
+                      <p className="truncate text-slate-700" title={item.url}>
+                        {item.filename || item.url}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {getQualityLabel(item.quality)}
+                      </p>
+                      {item.error && (
+                        <p className="text-xs text-red-600 line-clamp-2">
+                          {item.error}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>{getStatusBadge(item)}</TableCell>
+                    <TableCell>
+                      {item.status === "submitting" ? (
+                        <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <Progress value={item.progress} className="h-2" />
+                          <span className="text-xs text-slate-500 w-10 text-right">
+                            {item.progress.toFixed(0)}%
+                          </span>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {item.status === "completed" && item.fileUrl && (
+                        <Button asChild variant="ghost" size="sm" title="Download">
+                          <a href={item.fileUrl} download={item.filename}>
+                            <Download className="w-4 h-4" />
+                          </a>
+                        </Button>
+                      )}
+                      {(item.status === "error" ||
+                        item.status === "cancelled" ||
+                        item.status === "skipped") && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRetry(item)}
+                          title={item.status === "skipped" ? "Download anyway" : "Retry"}
+                        >
+                          <RotateCw className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {ACTIVE_STATUSES.includes(item.status) ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCancel(item)}
+                          title="Cancel"
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      ) : (
+                        item.status !== "submitting" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemove(item)}
+                            title="Remove"
+                            className="text-slate-400 hover:text-slate-600"
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
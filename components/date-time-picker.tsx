@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { CalendarClock } from "lucide-react";
+import { MAX_SCHEDULE_DAYS } from "@/lib/download-options";
+
+interface DateTimePickerProps {
+  value?: Date;
+  onChange: (date: Date) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Default time for a newly picked day: the next full hour
+function getNextHour() {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date;
+}
+
+/**
+ * Day and local time, limited to the range the server accepts.
+ */
+export function DateTimePicker({
+  value,
+  onChange,
+  disabled,
+  className,
+}: DateTimePickerProps) {
+  const [open, setOpen] = useState(false);
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const lastDay = new Date(today);
+  lastDay.setDate(lastDay.getDate() + MAX_SCHEDULE_DAYS - 1);
+
+  const handleDaySelect = (day?: Date) => {
+    if (!day) return;
+    const time = value || getNextHour();
+    const next = new Date(day);
+    next.setHours(time.getHours(), time.getMinutes(), 0, 0);
+    onChange(next);
+  };
+
+  const handleTimeChange = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    if (isNaN(hours) || isNaN(minutes)) return;
+    const next = new Date(value || getNextHour());
+    next.setHours(hours, minutes, 0, 0);
+    onChange(next);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={disabled}
+          className={`justify-start font-normal ${
+            value ? "text-slate-700" : "text-slate-500"
+          } ${className || ""}`}
+        >
+          <CalendarClock className="w-4 h-4 mr-2" />
+          {value ? format(value, "EEE, MMM d yyyy 'at' HH:mm") : "Pick a date and time"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={value}
+          onSelect={handleDaySelect}
+          disabled={[{ before: today }, { after: lastDay }]}
+          fromDate={today}
+          toDate={lastDay}
+          initialFocus
+        />
+        <div className="flex items-center gap-2 border-t border-slate-100 p-3">
+          <Input
+            type="time"
+            value={value ? format(value, "HH:mm") : ""}
+            onChange={(e) => handleTimeChange(e.target.value)}
+            className="h-9"
+          />
+          <Button size="sm" onClick={() => setOpen(false)} disabled={!value}>
+            Done
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
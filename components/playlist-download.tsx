@@ -0,0 +1,502 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import {
+  Download,
+  ListVideo,
+  Loader as Loader2,
+  CircleCheck as CheckCircle2,
+  X,
+} from "lucide-react";
+import {
+  formatDuration,
+  formatOrdinal,
+  getPhaseLabel,
+  getQualityLabel,
+} from "@/lib/format-utils";
+import { QUALITY_PRESETS } from "@/lib/download-options";
+import { toast } from "sonner";
+
+export interface PlaylistEntry {
+  index: number;
+  id: string;
+  url: string;
+  title: string;
+  duration: number | null;
+  thumbnail: string | null;
+  uploader: string | null;
+}
+
+export interface PlaylistInfo {
+  type: "playlist";
+  id: string;
+  title: string;
+  uploader: string;
+  entryCount: number | null;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  entries: PlaylistEntry[];
+}
+
+interface BatchEntryProgress {
+  id: string;
+  index: number;
+  title: string;
+  status: string;
+  progress: number;
+  queuePosition?: number;
+  phase?: string;
+  error?: string;
+  filename?: string;
+  fileUrl?: string;
+}
+
+interface BatchProgress {
+  batchId: string;
+  status: string;
+  entryCount: number;
+  counts: { [status: string]: number };
+  progress: number;
+  bundleUrl?: string;
+  entries: BatchEntryProgress[];
+  // Entries that did not pass the download checks
+  rejected: { index: number; title?: string; url: string; error?: string }[];
+}
+
+// Batch progress is polled; one SSE stream per entry would not scale to a channel
+const BATCH_POLL_INTERVAL = 2000;
+
+const FINISHED_BATCH_STATUSES = ["completed", "partial", "error", "cancelled"];
+
+function getEntryStatusLabel(entry: BatchEntryProgress): string {
+  switch (entry.status) {
+    case "queued":
+      return entry.queuePosition
+        ? `${formatOrdinal(entry.queuePosition)} in queue`
+        : "Queued";
+    case "downloading":
+      return `${getPhaseLabel(entry.phase)} • ${entry.progress.toFixed(0)}%`;
+    case "completed":
+      return "Done";
+    case "cancelled":
+      return "Cancelled";
+    default:
+      return entry.error || "Failed";
+  }
+}
+
+export function PlaylistDownload({
+  url,
+  playlist,
+  onReset,
+}: {
+  url: string;
+  playlist: PlaylistInfo;
+  onReset: () => void;
+}) {
+  const [entries, setEntries] = useState<PlaylistEntry[]>(playlist.entries);
+  const [page, setPage] = useState(playlist.page);
+  const [hasMore, setHasMore] = useState(playlist.hasMore);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Selecting all includes entries on pages that have not been loaded yet
+  const [selectAll, setSelectAll] = useState(true);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [quality, setQuality] = useState("1080p");
+  const [skipArchived, setSkipArchived] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [batch, setBatch] = useState<BatchProgress | null>(null);
+  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const stopPolling = () => {
+    if (pollRef.current) {
+      clearInterval(pollRef.current);
+      pollRef.current = null;
+    }
+  };
+
+  useEffect(() => stopPolling, []);
+
+  const batchRunning = !!batch && !FINISHED_BATCH_STATUSES.includes(batch.status);
+  const selectedCount = selectAll
+    ? playlist.entryCount ?? entries.length
+    : selected.length;
+
+  const isSelected = (index: number) =>
+    selectAll || selected.includes(index);
+
+  const handleToggleEntry = (index: number, checked: boolean) => {
+    const current = selectAll ? entries.map((entry) => entry.index) : selected;
+    setSelectAll(false);
+    setSelected(
+      checked
+        ? [...current.filter((i) => i !== index), index]
+        : current.filter((i) => i !== index)
+    );
+  };
+
+  const handleSelectAll = (checked: boolean) => {
+    setSelectAll(checked);
+    setSelected([]);
+  };
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const response = await fetch("/api/video-info", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          url,
+          page: page + 1,
+          pageSize: playlist.pageSize,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load more entries");
+      }
+      setEntries((prev) => [...prev, ...data.entries]);
+      setPage(data.page);
+      setHasMore(data.hasMore);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const pollBatch = async (batchId: string) => {
+    try {
+      const response = await fetch(
+        `/api/download?action=batch&id=${batchId}`
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to get batch progress");
+      }
+      setBatch(data);
+      if (FINISHED_BATCH_STATUSES.includes(data.status)) {
+        stopPolling();
+        if (data.status === "completed") {
+          toast.success(`Downloaded ${data.counts.completed} videos`);
+        } else if (data.status === "partial") {
+          toast.warning(
+            `Downloaded ${data.counts.completed} of ${data.entryCount} videos`
+          );
+        }
+      }
+    } catch (error: any) {
+      console.error("Batch progress failed:", error);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (selectedCount === 0) {
+      toast.error("Select at least one video");
+      return;
+    }
+
+    setStarting(true);
+    try {
+      const response = await fetch("/api/download", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          url,
+          quality,
+          playlist: true,
+          skipArchived,
+          ...(selectAll ? {} : { entryIndexes: selected }),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start downloads");
+      }
+
+      toast.success(
+        `Queueing ${data.entryCount} videos${
+          data.skipped > 0 ? ` (${data.skipped} already downloaded)` : ""
+        }`
+      );
+      stopPolling();
+      pollBatch(data.batchId);
+      pollRef.current = setInterval(
+        () => pollBatch(data.batchId),
+        BATCH_POLL_INTERVAL
+      );
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!batch) return;
+    try {
+      const response = await fetch(`/api/download?batch=${batch.batchId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to cancel downloads");
+      }
+      await pollBatch(batch.batchId);
+      toast.success("Downloads cancelled");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleReset = () => {
+    if (batchRunning) {
+      handleCancel();
+    }
+    stopPolling();
+    onReset();
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex items-start gap-4 p-6 bg-gradient-to-r from-slate-50 to-blue-50/50 rounded-xl border border-slate-200/50 shadow-sm">
+        <ListVideo className="w-10 h-10 text-blue-600 shrink-0" />
+        <div className="flex-1 space-y-2">
+          <h3 className="font-semibold text-lg sm:text-xl line-clamp-2 text-slate-800 leading-tight">
+            {playlist.title}
+          </h3>
+          <p className="text-sm text-slate-600 font-medium">
+            {playlist.uploader}
+          </p>
+          <Badge variant="outline" className="text-xs">
+            {playlist.entryCount !== null
+              ? `${playlist.entryCount} videos`
+              : `${entries.length}${hasMore ? "+" : ""} videos`}
+          </Badge>
+        </div>
+      </div>
+
+      {!batch && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+              <Checkbox
+                checked={selectAll}
+                onCheckedChange={(checked) => handleSelectAll(checked === true)}
+              />
+              Select all
+            </label>
+            <span className="text-sm text-slate-500">
+              {selectedCount} selected
+            </span>
+          </div>
+          <ScrollArea className="h-72 rounded-lg border border-slate-200">
+            <div className="p-2 space-y-1">
+              {entries.map((entry) => (
+                <label
+                  key={entry.index}
+                  className="flex items-center gap-3 p-2 rounded-md hover:bg-slate-50 cursor-pointer"
+                >
+                  <Checkbox
+                    checked={isSelected(entry.index)}
+                    onCheckedChange={(checked) =>
+                      handleToggleEntry(entry.index, checked === true)
+                    }
+                  />
+                  <span className="w-8 text-xs text-slate-400 text-right">
+                    {entry.index}
+                  </span>
+                  {entry.thumbnail && (
+                    <Image
+                      src={entry.thumbnail}
+                      alt=""
+                      width={64}
+                      height={36}
+                      className="w-16 h-9 object-cover rounded"
+                    />
+                  )}
+                  <span className="flex-1 text-sm text-slate-700 line-clamp-1">
+                    {entry.title}
+                  </span>
+                  {entry.duration !== null && (
+                    <span className="text-xs text-slate-500">
+                      {formatDuration(entry.duration)}
+                    </span>
+                  )}
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+          {hasMore && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleLoadMore}
+              disabled={loadingMore}
+              className="w-full"
+            >
+              {loadingMore ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : null}
+              Load more
+            </Button>
+          )}
+          <Select value={quality} onValueChange={setQuality}>
+            <SelectTrigger className="h-12">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {QUALITY_PRESETS.map((preset) => (
+                <SelectItem key={preset} value={preset}>
+                  {getQualityLabel(preset)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <Switch checked={skipArchived} onCheckedChange={setSkipArchived} />
+            Skip videos already downloaded at this quality
+          </label>
+        </div>
+      )}
+
+      {batch && (
+        <div className="space-y-3 p-4 bg-blue-50/50 rounded-lg border border-blue-200/50 animate-in fade-in duration-300">
+          <div className="flex justify-between text-sm">
+            <span className="text-slate-700 font-medium">
+              {batch.counts.completed} of {batch.entryCount} downloaded
+              {batch.counts.error > 0 && ` • ${batch.counts.error} failed`}
+              {batch.counts.pending > 0 && ` • ${batch.counts.pending} being checked`}
+            </span>
+            <span className="font-bold text-blue-600">
+              {batch.progress.toFixed(1)}%
+            </span>
+          </div>
+          <Progress value={batch.progress} className="h-3 bg-blue-100" />
+          <ScrollArea className="h-72">
+            <div className="space-y-1 pr-3">
+              {batch.entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-center gap-3 p-2 rounded-md bg-white/70 text-sm"
+                >
+                  <span className="w-8 text-xs text-slate-400 text-right">
+                    {entry.index}
+                  </span>
+                  <span className="flex-1 text-slate-700 line-clamp-1">
+                    {entry.title}
+                  </span>
+                  <span
+                    className={`text-xs ${
+                      entry.status === "error"
+                        ? "text-red-600"
+                        : "text-slate-500"
+                    } line-clamp-1 max-w-[40%]`}
+                  >
+                    {getEntryStatusLabel(entry)}
+                  </span>
+                  {entry.fileUrl && (
+                    <a
+                      href={entry.fileUrl}
+                      download={entry.filename}
+                      className="text-green-700 hover:text-green-900"
+                      title="Download"
+                    >
+                      <Download className="w-4 h-4" />
+                    </a>
+                  )}
+                </div>
+              ))}
+              {batch.rejected.map((entry) => (
+                <div
+                  key={`rejected-${entry.index}`}
+                  className="flex items-center gap-3 p-2 rounded-md bg-white/70 text-sm"
+                >
+                  <span className="w-8 text-xs text-slate-400 text-right">
+                    {entry.index}
+                  </span>
+                  <span className="flex-1 text-slate-700 line-clamp-1">
+                    {entry.title || entry.url}
+                  </span>
+                  <span className="text-xs text-red-600 line-clamp-1 max-w-[40%]">
+                    {entry.error || "Not queued"}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        {!batch && (
+          <Button
+            onClick={handleDownload}
+            disabled={starting || selectedCount === 0}
+            size="lg"
+            className="flex-1 h-12 py-3 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+          >
+            {starting ? (
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-5 h-5 mr-2" />
+            )}
+            Download {selectedCount} Videos
+          </Button>
+        )}
+        {batch && !batchRunning && (
+          <div className="flex-1 flex items-center gap-2 text-green-700 font-medium">
+            <CheckCircle2 className="w-5 h-5" />
+            {batch.status === "completed"
+              ? "All downloads finished"
+              : batch.status === "cancelled"
+              ? "Downloads cancelled"
+              : "Finished with errors"}
+          </div>
+        )}
+        {batch?.bundleUrl && (
+          <Button asChild variant="outline" size="lg" className="h-12">
+            <a href={batch.bundleUrl}>
+              <Download className="w-5 h-5 mr-2" />
+              {batchRunning ? "Download Finished (.zip)" : "Download All (.zip)"}
+            </a>
+          </Button>
+        )}
+        {batchRunning && (
+          <Button
+            onClick={handleCancel}
+            variant="outline"
+            size="lg"
+            className="h-12 flex-1 border-red-200 text-red-600 hover:border-red-400 hover:bg-red-50 hover:text-red-700 transition-all duration-200 hover:shadow-md"
+          >
+            <X className="w-5 h-5 mr-2" />
+            Cancel All
+          </Button>
+        )}
+        <Button
+          onClick={handleReset}
+          variant="outline"
+          size="lg"
+          className="h-12 sm:w-auto w-full border-slate-300 hover:border-blue-400 hover:bg-blue-50 transition-all duration-200 hover:shadow-md"
+        >
+          Reset
+        </Button>
+      </div>
+    </div>
+  );
+}
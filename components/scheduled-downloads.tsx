@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, Check, Pencil, X } from "lucide-react";
+import { DateTimePicker } from "@/components/date-time-picker";
+import { getQualityLabel } from "@/lib/format-utils";
+import { toast } from "sonner";
+
+interface ScheduledDownload {
+  id: string;
+  url: string;
+  title?: string;
+  quality: string;
+  filename?: string;
+  scheduledFor: string;
+}
+
+// Due downloads leave the list once the server queues them
+const SCHEDULED_REFRESH_INTERVAL = 30 * 1000;
+
+interface ScheduledDownloadsProps {
+  // Bumped by the parent after scheduling a download
+  refreshKey: number;
+}
+
+export function ScheduledDownloads({ refreshKey }: ScheduledDownloadsProps) {
+  const [downloads, setDownloads] = useState<ScheduledDownload[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDate, setEditDate] = useState<Date | undefined>();
+
+  const loadDownloads = async () => {
+    try {
+      const response = await fetch("/api/scheduled");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load scheduled downloads");
+      }
+      setDownloads(data.downloads);
+    } catch (error) {
+      console.error("Scheduled downloads failed:", error);
+    }
+  };
+
+  // The interval always calls the latest loadDownloads
+  const loadDownloadsRef = useRef(loadDownloads);
+  loadDownloadsRef.current = loadDownloads;
+
+  useEffect(() => {
+    loadDownloadsRef.current();
+  }, [refreshKey]);
+
+  useEffect(() => {
+    const timer = setInterval(
+      () => loadDownloadsRef.current(),
+      SCHEDULED_REFRESH_INTERVAL
+    );
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleEdit = (download: ScheduledDownload) => {
+    setEditingId(download.id);
+    setEditDate(new Date(download.scheduledFor));
+  };
+
+  const handleSave = async (download: ScheduledDownload) => {
+    if (!editDate) return;
+    try {
+      const response = await fetch(`/api/download?id=${download.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scheduledFor: editDate.toISOString() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to reschedule download");
+      }
+      setEditingId(null);
+      toast.success(`Rescheduled for ${format(editDate, "MMM d 'at' HH:mm")}`);
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+    loadDownloads();
+  };
+
+  const handleCancel = async (download: ScheduledDownload) => {
+    try {
+      const response = await fetch(`/api/download?id=${download.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to cancel download");
+      }
+      toast.success("Scheduled download cancelled");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+    loadDownloads();
+  };
+
+  if (downloads.length === 0) return null;
+
+  return (
+    <div className="p-4 bg-slate-50 rounded-lg border border-slate-200 animate-in fade-in slide-in-from-top-2 duration-300">
+      <h3 className="font-medium text-slate-700 mb-3 flex items-center gap-2">
+        <CalendarClock className="w-4 h-4 text-blue-600" />
+        Scheduled Downloads
+        <Badge variant="secondary">{downloads.length}</Badge>
+      </h3>
+      <div className="space-y-2 max-h-60 overflow-y-auto">
+        {downloads.map((download) => (
+          <div
+            key={download.id}
+            className="flex flex-col sm:flex-row sm:items-center gap-2 p-2 bg-white rounded-md"
+          >
+            <div className="flex-1 min-w-0">
+              <p
+                className="text-sm font-medium text-slate-700 truncate"
+                title={download.url}
+              >
+                {download.title || download.filename || download.url}
+              </p>
+              <p className="text-xs text-slate-500">
+                {getQualityLabel(download.quality)} •{" "}
+                {format(new Date(download.scheduledFor), "EEE, MMM d yyyy 'at' HH:mm")}
+              </p>
+            </div>
+            {editingId === download.id ? (
+              <div className="flex items-center gap-1">
+                <DateTimePicker
+                  value={editDate}
+                  onChange={setEditDate}
+                  className="h-9"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleSave(download)}
+                  title="Save"
+                  className="text-green-600 hover:text-green-700 hover:bg-green-50"
+                >
+                  <Check className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditingId(null)}
+                  title="Discard"
+                  className="text-slate-400 hover:text-slate-600"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleEdit(download)}
+                  title="Change time"
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleCancel(download)}
+                  title="Cancel"
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+export async function register() {
+  // Background work only makes sense in the Node.js server, not the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { default: connectToDatabase } = await import('@/lib/mongodb');
+    const { reconcileDownloads, startRecoverySweeper } = await import('@/lib/download-recovery');
+    const { startFileRetentionSweeper } = await import('@/lib/file-retention');
+    const { startSubscriptionScheduler } = await import('@/lib/subscriptions');
+    const { startDownloadScheduler } = await import('@/lib/download-scheduler');
+    const { getYtdlpVersion } = await import('@/lib/ytdlp');
+    const { killProcessTreesOnShutdown } = await import('@/lib/process-utils');
+
+    getYtdlpVersion()
+      .then((version) => console.log(`Using yt-dlp ${version}`))
+      .catch((error) => console.error('yt-dlp is not available:', error.message));
+
+    // yt-dlp runs in its own process group and would outlive the server
+    killProcessTreesOnShutdown();
+    startFileRetentionSweeper();
+    startSubscriptionScheduler();
+    startDownloadScheduler();
+    startRecoverySweeper();
+
+    try {
+      await connectToDatabase();
+      await reconcileDownloads();
+    } catch (error) {
+      console.error('Startup download reconciliation failed:', error);
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+/**
+ * Whether a request may use the admin endpoints: it must carry
+ * `Authorization: Bearer <ADMIN_TOKEN>`. Without ADMIN_TOKEN configured the
+ * endpoints are disabled.
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) return false;
+
+  const header = request.headers.get('authorization') || '';
+  const provided = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(token);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
@@ -0,0 +1,152 @@
+import { existsSync, statSync } from 'fs';
+import DownloadBatch from '@/lib/models/DownloadBatch';
+import DownloadSession, { IDownloadSession, IOutputFile } from '@/lib/models/DownloadSession';
+import type { ZipEntry } from '@/lib/zip';
+import { getExtension } from '@/lib/media-types';
+import { sanitizeFilename } from '@/lib/filename';
+
+export const MANIFEST_NAME = 'manifest.json';
+
+export interface Bundle {
+  filename: string;
+  entries: ZipEntry[];
+}
+
+interface BundleFile {
+  name: string;
+  path: string;
+  kind: 'media' | IOutputFile['kind'];
+  crc32?: number;
+  language?: string;
+  // The video the file belongs to
+  sessionId: string;
+  title?: string;
+  url: string;
+}
+
+function isAvailable(session: IDownloadSession): boolean {
+  return (
+    session.status === 'completed' &&
+    !!session.tempFile &&
+    !(session.fileExpiresAt && session.fileExpiresAt <= new Date())
+  );
+}
+
+// Main file first, then sidecars grouped by kind and sorted by name
+function getSessionFiles(session: IDownloadSession): BundleFile[] {
+  const source = { sessionId: session.sessionId, title: session.title, url: session.url };
+  const sidecars = (session.outputFiles || [])
+    .filter((file) => file.path !== session.tempFile)
+    .sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name));
+
+  return [
+    {
+      name: session.filename,
+      path: session.tempFile!,
+      kind: session.outputFiles?.find((file) => file.path === session.tempFile)?.kind || 'media',
+      crc32: session.fileCrc32,
+      ...source,
+    },
+    ...sidecars.map((file) => ({
+      name: file.name,
+      path: file.path,
+      kind: file.kind,
+      crc32: file.crc32,
+      language: file.language,
+      ...source,
+    })),
+  ];
+}
+
+// Names inside one archive must be unique
+function dedupeNames(files: BundleFile[]): BundleFile[] {
+  const used = new Set<string>([MANIFEST_NAME]);
+  return files.map((file) => {
+    let name = file.name;
+    const ext = getExtension(name);
+    const stem = ext ? name.slice(0, -(ext.length + 1)) : name;
+    for (let n = 2; used.has(name); n++) {
+      name = ext ? `${stem} (${n}).${ext}` : `${stem} (${n})`;
+    }
+    used.add(name);
+    return { ...file, name };
+  });
+}
+
+/**
+ * Zip entries for `files` with a manifest first. Everything is derived from
+ * the files themselves so the same files always produce the same archive,
+ * which is what lets an interrupted bundle download resume.
+ */
+function buildBundleEntries(source: { url: string; title?: string }, files: BundleFile[]): ZipEntry[] {
+  const present = dedupeNames(files.filter((file) => existsSync(file.path)));
+  const stats = present.map((file) => statSync(file.path));
+  const newest = stats.reduce((latest, { mtime }) => (mtime > latest ? mtime : latest), new Date(0));
+
+  const manifest = {
+    version: 1,
+    url: source.url,
+    title: source.title,
+    files: present.map((file, i) => ({
+      name: file.name,
+      size: stats[i].size,
+      kind: file.kind,
+      language: file.language,
+      crc32: file.crc32 !== undefined ? file.crc32.toString(16).padStart(8, '0') : undefined,
+      title: file.title,
+      url: file.url,
+    })),
+  };
+
+  return [
+    {
+      name: MANIFEST_NAME,
+      data: Buffer.from(JSON.stringify(manifest, null, 2) + '\n', 'utf8'),
+      mtime: newest,
+    },
+    ...present.map((file, i) => ({
+      name: file.name,
+      path: file.path,
+      crc32: file.crc32,
+      mtime: stats[i].mtime,
+    })),
+  ];
+}
+
+/**
+ * Every file of a completed download, or null when they are gone.
+ */
+export function getSessionBundle(session: IDownloadSession): Bundle | null {
+  if (!isAvailable(session)) return null;
+  const entries = buildBundleEntries(session, getSessionFiles(session));
+  // Only the manifest is left
+  if (entries.length <= 1) return null;
+
+  const stem = session.filename.slice(0, -(getExtension(session.filename).length + 1)) || 'download';
+  return { filename: `${stem}.zip`, entries };
+}
+
+/**
+ * The files of every finished entry of a playlist download, in playlist
+ * order, each prefixed with its position. Entries still running or failed
+ * are left out; a later request includes them once they complete.
+ */
+export async function getBatchBundle(batchId: string): Promise<Bundle | null> {
+  const batch = await DownloadBatch.findOne({ batchId });
+  if (!batch) return null;
+
+  const sessions: IDownloadSession[] = await DownloadSession.find({ batchId, status: 'completed' })
+    .sort({ batchIndex: 1 });
+  const width = Math.max(String(batch.entryCount).length, 2);
+
+  const files = sessions.filter(isAvailable).flatMap((session) =>
+    getSessionFiles(session).map((file) => ({
+      ...file,
+      name: `${String(session.batchIndex ?? 0).padStart(width, '0')} - ${file.name}`,
+    }))
+  );
+  const entries = buildBundleEntries(batch, files);
+  if (entries.length <= 1) return null;
+
+  return { filename: `${sanitizeFilename(batch.title || 'playlist')}.zip`, entries };
+}
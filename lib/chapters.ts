@@ -0,0 +1,60 @@
+import { basename, join } from 'path';
+import { listDownloadArtifacts } from '@/lib/download-files';
+import type { YtdlpVideoInfo } from '@/lib/ytdlp';
+
+export interface Chapter {
+  // 1-based, matching yt-dlp's section_number
+  index: number;
+  title: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface ChapterFile {
+  index: number;
+  title: string;
+  path: string;
+}
+
+// Chapter files share the job's base name: <base>.chapter-007-<title>.<ext>
+const CHAPTER_FILE_PATTERN = /\.chapter-(\d+)-(.*)\.(\w+)$/;
+
+export function listChapters(info: YtdlpVideoInfo): Chapter[] {
+  return (info.chapters || []).map((chapter, i) => ({
+    index: i + 1,
+    title: chapter.title || `Chapter ${i + 1}`,
+    startTime: chapter.start_time ?? 0,
+    endTime: chapter.end_time ?? info.duration ?? 0,
+  }));
+}
+
+export function isChapterFile(filePath: string): boolean {
+  return CHAPTER_FILE_PATTERN.test(basename(filePath));
+}
+
+/**
+ * yt-dlp arguments that cut the finished file into one file per chapter,
+ * written next to it in the downloads directory.
+ */
+export function getChapterArgs(downloadsDir: string, tempBaseName: string): string[] {
+  return [
+    '--split-chapters',
+    '-o',
+    // Long chapter titles are cut to 100 bytes to stay within the filesystem's name limit
+    `chapter:${join(downloadsDir, `${tempBaseName}.chapter-%(section_number)03d-%(section_title).100B.%(ext)s`)}`,
+  ];
+}
+
+/**
+ * Finished chapter files of a job in chapter order.
+ */
+export function findChapterFiles(tempBaseName: string): ChapterFile[] {
+  return listDownloadArtifacts(tempBaseName)
+    .filter((file) => !/\.(part|ytdl)$/.test(file))
+    .map((file) => {
+      const match = basename(file).match(CHAPTER_FILE_PATTERN);
+      return match ? { index: parseInt(match[1], 10), title: match[2], path: file } : null;
+    })
+    .filter((file): file is ChapterFile => !!file)
+    .sort((a, b) => a.index - b.index);
+}
@@ -0,0 +1,189 @@
+import ArchiveEntry, { IArchiveEntry } from '@/lib/models/ArchiveEntry';
+import type { IDownloadSession } from '@/lib/models/DownloadSession';
+
+// Quality of imported lines, which do not say which preset was used; matches every preset
+export const ARCHIVE_ANY_QUALITY = 'any';
+
+export const ARCHIVE_PAGE_SIZE = 50;
+
+// A line of yt-dlp's archive format: "<extractor> <id>"
+const ARCHIVE_LINE = /^(\S+)\s+(\S+)$/;
+
+export interface ArchivedVideo {
+  extractor: string;
+  videoId: string;
+}
+
+// What sets one download of a video apart from another
+export interface ArchiveQualityOptions {
+  quality: string;
+  formatId?: string;
+  audioFormat?: string;
+  audioBitrate?: number;
+}
+
+/**
+ * Key of a video in yt-dlp's --download-archive format. yt-dlp writes the
+ * extractor key in lowercase, e.g. "youtube dQw4w9WgXcQ".
+ */
+export function getArchiveKey(extractor: string, videoId: string): string {
+  return `${extractor.toLowerCase()} ${videoId}`;
+}
+
+/**
+ * Quality a download is archived under: the preset, refined by the exact
+ * formats or by the audio format and bitrate, e.g. "custom:137+140" or
+ * "audio:mp3@192".
+ */
+export function getArchiveQuality(options: ArchiveQualityOptions): string {
+  if (options.formatId) {
+    return `${options.quality}:${options.formatId}`;
+  }
+  if (options.quality === 'audio' && options.audioFormat) {
+    return `audio:${options.audioFormat}${options.audioBitrate ? `@${options.audioBitrate}` : ''}`;
+  }
+  return options.quality;
+}
+
+/**
+ * Archived qualities under which a download counts as already made: its
+ * own, and imported lines that only name the preset or no quality at all.
+ */
+export function getMatchingArchiveQualities(options: ArchiveQualityOptions): string[] {
+  return Array.from(new Set([getArchiveQuality(options), options.quality, ARCHIVE_ANY_QUALITY]));
+}
+
+/**
+ * Whether a session fetched the whole video. Clips, subtitles alone, a
+ * selection of chapters and live recordings only hold part of it, so they
+ * must not make later downloads of the full video be skipped.
+ */
+function isFullMediaDownload(session: IDownloadSession): boolean {
+  return (
+    session.clipStart === undefined &&
+    session.clipEnd === undefined &&
+    session.subtitleMode !== 'only' &&
+    session.chapterMode !== 'select' &&
+    !session.liveRecording
+  );
+}
+
+/**
+ * Record a completed session. Sessions without a known extractor and video
+ * ID (e.g. scheduled before the video could be extracted) and partial
+ * downloads are left out.
+ */
+export async function recordArchiveEntry(session: IDownloadSession) {
+  if (!session.extractor || !session.videoId || !isFullMediaDownload(session)) return;
+
+  await ArchiveEntry.updateOne(
+    { extractor: session.extractor.toLowerCase(), videoId: session.videoId, quality: getArchiveQuality(session) },
+    { title: session.title, url: session.url, sessionId: session.sessionId, downloadedAt: new Date() },
+    { upsert: true }
+  );
+}
+
+/**
+ * Earlier downloads of one video at any quality, newest first.
+ */
+export function findArchiveEntries(extractor: string, videoId: string): Promise<IArchiveEntry[]> {
+  return ArchiveEntry.find({ extractor: extractor.toLowerCase(), videoId }).sort({ downloadedAt: -1 });
+}
+
+/**
+ * Archive keys of the given videos that were already downloaded with these
+ * options (see getMatchingArchiveQualities).
+ */
+export async function findArchivedKeys(videos: ArchivedVideo[], options: ArchiveQualityOptions): Promise<Set<string>> {
+  const known = videos.filter((video) => video.extractor && video.videoId);
+  if (known.length === 0) return new Set();
+
+  const wanted = new Set(known.map((video) => getArchiveKey(video.extractor, video.videoId)));
+  const entries = await ArchiveEntry.find(
+    {
+      videoId: { $in: known.map((video) => video.videoId) },
+      quality: { $in: getMatchingArchiveQualities(options) },
+    },
+    { extractor: 1, videoId: 1 }
+  );
+
+  return new Set(
+    entries
+      .map((entry) => getArchiveKey(entry.extractor, entry.videoId))
+      .filter((key) => wanted.has(key))
+  );
+}
+
+/**
+ * Parse a yt-dlp --download-archive file. Blank lines are ignored; lines
+ * that are not "<extractor> <id>" are returned as invalid.
+ */
+export function parseArchiveText(text: string) {
+  const videos: ArchivedVideo[] = [];
+  const invalid: string[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const match = ARCHIVE_LINE.exec(line);
+    if (match) {
+      videos.push({ extractor: match[1].toLowerCase(), videoId: match[2] });
+    } else {
+      invalid.push(line);
+    }
+  }
+  return { videos, invalid };
+}
+
+/**
+ * Add the lines of a yt-dlp archive file. Videos already in the archive
+ * under the same quality are left as they are.
+ */
+export async function importArchive(text: string, quality: string = ARCHIVE_ANY_QUALITY) {
+  const { videos, invalid } = parseArchiveText(text);
+  if (videos.length === 0) {
+    return { imported: 0, existing: 0, invalid: invalid.length };
+  }
+
+  const result = await ArchiveEntry.bulkWrite(
+    videos.map(({ extractor, videoId }) => ({
+      updateOne: {
+        filter: { extractor, videoId, quality },
+        update: { $setOnInsert: { extractor, videoId, quality, downloadedAt: new Date() } },
+        upsert: true,
+      },
+    })),
+    { ordered: false }
+  );
+
+  const imported = result.upsertedCount;
+  console.log(`Imported ${imported} archive entries (${videos.length - imported} already present, ${invalid.length} invalid)`);
+  return { imported, existing: videos.length - imported, invalid: invalid.length };
+}
+
+/**
+ * The whole archive in yt-dlp's --download-archive format, one line per
+ * video whatever the number of qualities it was downloaded at.
+ */
+export async function exportArchive(): Promise<string> {
+  const videos: { _id: ArchivedVideo }[] = await ArchiveEntry.aggregate([
+    { $group: { _id: { extractor: '$extractor', videoId: '$videoId' }, first: { $min: '$downloadedAt' } } },
+    { $sort: { first: 1 } },
+  ]);
+  return videos.map(({ _id }) => `${getArchiveKey(_id.extractor, _id.videoId)}\n`).join('');
+}
+
+/**
+ * Shape returned to clients.
+ */
+export function serializeArchiveEntry(entry: IArchiveEntry) {
+  return {
+    id: String(entry._id),
+    extractor: entry.extractor,
+    videoId: entry.videoId,
+    quality: entry.quality,
+    title: entry.title,
+    url: entry.url,
+    downloadedAt: entry.downloadedAt,
+  };
+}
@@ -0,0 +1,250 @@
+import { randomUUID } from 'crypto';
+import DownloadBatch, { IBatchEntry, IDownloadBatch } from '@/lib/models/DownloadBatch';
+import DownloadSession, { IDownloadSession } from '@/lib/models/DownloadSession';
+import type { DownloadOptions } from '@/lib/download-options';
+import { enqueueDownload } from '@/lib/download-enqueue';
+import { cancelDownload } from '@/lib/download-jobs';
+import { processDownloadQueue } from '@/lib/download-queue';
+import { serializeProgress } from '@/lib/download-progress';
+import { LEASE_RENEW_INTERVAL, getLeaseExpiry } from '@/lib/worker-lease';
+import type { PlaylistEntry } from '@/lib/playlists';
+import { YtdlpPlaylistInfo, describeYtdlpError } from '@/lib/ytdlp';
+
+export type BatchStatus = 'queued' | 'downloading' | 'completed' | 'partial' | 'error' | 'cancelled';
+
+const STATUS_KEYS = ['queued', 'downloading', 'completed', 'error', 'cancelled'] as const;
+
+/**
+ * Options that only make sense for a single video. Returns an error message,
+ * or null when the options can be applied to every entry.
+ */
+export function getBatchOptionsError(options: DownloadOptions): string | null {
+  if (options.formatId) {
+    return 'Format IDs differ between videos; choose a quality preset for playlists';
+  }
+  if (options.clipStart !== undefined || options.clipEnd !== undefined) {
+    return 'Clips are not supported for playlist downloads';
+  }
+  if (options.chapterMode) {
+    return 'Chapter downloads are not supported for playlist downloads';
+  }
+  if (options.liveRecording) {
+    return 'Live recordings are not supported for playlist downloads';
+  }
+  return null;
+}
+
+/**
+ * Create a batch for the selected entries. The entries are checked and
+ * queued in the background, since that takes a video info lookup each;
+ * their sessions appear in the batch as they pass.
+ */
+export async function createDownloadBatch(
+  url: string,
+  playlist: YtdlpPlaylistInfo,
+  entries: PlaylistEntry[],
+  options: DownloadOptions,
+  skipArchived = false
+) {
+  const batch: IDownloadBatch = await DownloadBatch.create({
+    batchId: randomUUID(),
+    url,
+    title: playlist.title,
+    uploader: playlist.uploader || playlist.channel,
+    playlistId: playlist.id,
+    entryCount: entries.length,
+    quality: options.quality,
+    options,
+    skipArchived,
+    pendingEntries: entries.map((entry) => ({ index: entry.index, url: entry.url, title: entry.title })),
+    leaseExpiresAt: getLeaseExpiry(),
+  });
+
+  console.log(`Created batch ${batch.batchId} with ${entries.length} entries from ${url}`);
+  queueBatchEntries(batch).catch((error) => {
+    console.error(`Queueing the entries of batch ${batch.batchId} failed:`, error);
+  });
+  return { batchId: batch.batchId, entryCount: entries.length };
+}
+
+// Check one entry and queue it the way a single download would be. Returns
+// the new session, or the batch update recording why there is none.
+async function queueBatchEntry(
+  batch: IDownloadBatch,
+  entry: IBatchEntry
+): Promise<{ sessionId: string } | { update: object }> {
+  try {
+    const outcome = await enqueueDownload(entry.url, { ...batch.options }, {
+      skipArchived: batch.skipArchived,
+      fields: {
+        batchId: batch.batchId,
+        batchIndex: entry.index,
+        // Playlist order, however long the checks take
+        queuedAt: new Date(batch.createdAt.getTime() + entry.index),
+      },
+    });
+    if (outcome.status === 'rejected') {
+      console.log(`Batch ${batch.batchId}: skipping entry ${entry.index} (${outcome.error})`);
+      return { update: { $push: { rejectedEntries: { ...entry, error: outcome.error } } } };
+    }
+    if (outcome.status === 'skipped') {
+      return { update: { $inc: { skippedCount: 1 } } };
+    }
+    return { sessionId: outcome.sessionId };
+  } catch (error: any) {
+    console.error(`Batch ${batch.batchId}: could not queue entry ${entry.index}:`, error.message);
+    const { message } = describeYtdlpError(error, 'Could not get video info');
+    return { update: { $push: { rejectedEntries: { ...entry, error: message } } } };
+  }
+}
+
+/**
+ * Work through the pending entries of a batch whose lease this server
+ * holds. The batch is re-read for every entry, so cancelling it stops the
+ * rest from being queued.
+ */
+async function queueBatchEntries(batch: IDownloadBatch) {
+  const { batchId } = batch;
+  const leaseTimer = setInterval(() => {
+    DownloadBatch.updateOne({ batchId }, { leaseExpiresAt: getLeaseExpiry() }).catch((error) => {
+      console.error(`Failed to renew the lease of batch ${batchId}:`, error);
+    });
+  }, LEASE_RENEW_INTERVAL);
+
+  try {
+    for (;;) {
+      const current: IDownloadBatch | null = await DownloadBatch.findOne({ batchId });
+      const entry = current?.pendingEntries[0];
+      if (!current || !entry) break;
+
+      const result = await queueBatchEntry(current, entry);
+      const { matchedCount } = await DownloadBatch.updateOne(
+        { batchId, 'pendingEntries.index': entry.index },
+        { ...('update' in result && result.update), $pull: { pendingEntries: { index: entry.index } } }
+      );
+      if ('sessionId' in result) {
+        // The batch was cancelled while this entry was being checked
+        if (matchedCount === 0) {
+          await cancelDownload(result.sessionId);
+        }
+        await processDownloadQueue();
+      }
+    }
+  } finally {
+    clearInterval(leaseTimer);
+    await DownloadBatch.updateOne({ batchId }, { $unset: { leaseExpiresAt: 1 } });
+  }
+  console.log(`Finished queueing the entries of batch ${batchId}`);
+}
+
+/**
+ * Take over batches whose entries were still being queued by a server that
+ * stopped. Returns the number of batches resumed.
+ */
+export async function resumeInterruptedBatches(): Promise<number> {
+  let resumed = 0;
+  for (;;) {
+    const batch: IDownloadBatch | null = await DownloadBatch.findOneAndUpdate(
+      {
+        'pendingEntries.0': { $exists: true },
+        $or: [{ leaseExpiresAt: { $lt: new Date() } }, { leaseExpiresAt: { $exists: false } }],
+      },
+      { leaseExpiresAt: getLeaseExpiry() },
+      { new: true }
+    );
+    if (!batch) return resumed;
+
+    console.log(`Resuming batch ${batch.batchId}: ${batch.pendingEntries.length} entries left to queue`);
+    queueBatchEntries(batch).catch((error) => {
+      console.error(`Queueing the entries of batch ${batch.batchId} failed:`, error);
+    });
+    resumed++;
+  }
+}
+
+function getBatchStatus(counts: Record<string, number>, total: number): BatchStatus {
+  // Every entry was rejected or skipped before it got a session
+  if (total === 0 && counts.pending === 0) return counts.rejected > 0 ? 'error' : 'completed';
+  if (counts.pending > 0) counts = { ...counts, queued: counts.queued + counts.pending };
+  const finished = counts.completed + counts.error + counts.cancelled;
+  if (counts.downloading > 0 || (counts.queued > 0 && finished > 0)) return 'downloading';
+  if (counts.queued > 0) return 'queued';
+  if (counts.completed === total) return 'completed';
+  if (counts.completed > 0) return 'partial';
+  return counts.cancelled === total ? 'cancelled' : 'error';
+}
+
+/**
+ * Aggregate progress of a batch plus the progress of each entry, in
+ * playlist order. Returns null for unknown or expired batches.
+ */
+export async function getBatchProgress(batchId: string) {
+  const batch = await DownloadBatch.findOne({ batchId });
+  if (!batch) return null;
+
+  const sessions: IDownloadSession[] = await DownloadSession.find({ batchId }).sort({ batchIndex: 1 });
+
+  const counts: Record<string, number> = {
+    // Entries still waiting for their checks, and those that failed them
+    pending: batch.pendingEntries.length,
+    rejected: batch.rejectedEntries.length,
+    skipped: batch.skippedCount,
+  };
+  STATUS_KEYS.forEach((status) => {
+    counts[status] = sessions.filter((session) => session.status === status).length;
+  });
+  const total = sessions.length + counts.pending;
+
+  // Finished entries count as done whatever their outcome
+  const progress = total === 0 ? 0 : sessions.reduce((sum, session) => {
+    const done = session.status !== 'queued' && session.status !== 'downloading';
+    return sum + (done ? 100 : session.progress || 0);
+  }, 0) / total;
+
+  return {
+    batchId,
+    url: batch.url,
+    title: batch.title,
+    uploader: batch.uploader,
+    status: getBatchStatus(counts, sessions.length),
+    entryCount: total,
+    counts,
+    progress,
+    // Finished entries can be fetched as one zip while the rest still run
+    bundleUrl: counts.completed > 0 ? `/api/download?action=bundle&id=${batchId}` : undefined,
+    entries: sessions.map((session) => ({
+      id: session.sessionId,
+      index: session.batchIndex,
+      title: session.title,
+      url: session.url,
+      ...serializeProgress(session),
+    })),
+    rejected: batch.rejectedEntries.map(({ index, title, url, error }: IBatchEntry) => ({ index, title, url, error })),
+  };
+}
+
+/**
+ * Cancel every unfinished entry of a batch. Queued entries go first so the
+ * queue does not start them while running ones are being stopped.
+ * Returns the number of cancelled entries, or null for unknown batches.
+ */
+export async function cancelDownloadBatch(batchId: string): Promise<number | null> {
+  // Entries not checked yet are dropped before they get a session
+  const batch = await DownloadBatch.findOneAndUpdate({ batchId }, { pendingEntries: [] });
+  if (!batch) return null;
+
+  const pending: IDownloadSession[] = await DownloadSession.find(
+    { batchId, status: { $in: ['queued', 'downloading'] } },
+    { sessionId: 1, status: 1 }
+  );
+  pending.sort((a, b) => (a.status === 'queued' ? 0 : 1) - (b.status === 'queued' ? 0 : 1));
+
+  let cancelled = 0;
+  for (const session of pending) {
+    if (await cancelDownload(session.sessionId)) cancelled++;
+  }
+
+  cancelled += batch.pendingEntries.length;
+  console.log(`Batch ${batchId} cancelled: ${cancelled} entries`);
+  return cancelled;
+}
@@ -0,0 +1,370 @@
+import { createHash, randomBytes } from 'crypto';
+import { existsSync } from 'fs';
+import CachedFile, { ICachedFile } from '@/lib/models/CachedFile';
+import DownloadSession, { IDownloadSession } from '@/lib/models/DownloadSession';
+import type { DownloadOptions } from '@/lib/download-options';
+import { publishDownloadEvent } from '@/lib/download-events';
+import { serializeProgress } from '@/lib/download-progress';
+import { getDownloadBaseName, removeDownloadArtifacts } from '@/lib/download-files';
+import { recordArchiveEntry } from '@/lib/download-archive';
+import { getLeaseExpiry, getWorkerId } from '@/lib/worker-lease';
+
+const DEFAULT_CACHE_RETENTION_MINUTES = 6 * 60;
+const MAX_CACHE_RETENTION_MINUTES = 7 * 24 * 60;
+
+const ACTIVE_STATUSES = ['queued', 'downloading'];
+
+// Time between registering a cache entry and storing its session
+const SETUP_GRACE = 30 * 1000; // 30 seconds
+
+// Fields a finished job writes to every session that receives its files
+export interface CompletionFields {
+  status: 'completed';
+  progress: number;
+  tempFile: string;
+  fileSize?: number;
+  fileCrc32: number;
+  contentType: string;
+  filename: string;
+  outputFiles: IDownloadSession['outputFiles'];
+  fileExpiresAt: Date;
+  $unset: Record<string, 1>;
+}
+
+export type CacheResolution =
+  // Nothing to share: this session runs the job
+  | { type: 'producer' }
+  // The files already exist and can be handed out right away
+  | { type: 'hit'; entry: ICachedFile }
+  // An identical job is queued or running; follow it instead of starting another
+  | { type: 'attach'; jobId: string; status: string }
+  // The cache could not be settled; download without it
+  | { type: 'none' };
+
+/**
+ * How long unreferenced cached files are kept, from CACHE_RETENTION_MINUTES.
+ */
+export function getCacheRetentionMs(): number {
+  const configured = parseInt(process.env.CACHE_RETENTION_MINUTES || '', 10);
+  const minutes = configured > 0 ? Math.min(configured, MAX_CACHE_RETENTION_MINUTES) : DEFAULT_CACHE_RETENTION_MINUTES;
+  return minutes * 60 * 1000;
+}
+
+export function createDownloadToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Cache key of a download: the canonical video (extractor and ID, not the
+ * URL, which comes in many shapes) plus every option that changes the output.
+ */
+export function getCacheKey(extractor: string, videoId: string, options: DownloadOptions): string {
+  const selection = Object.entries(options)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha1')
+    .update(JSON.stringify([extractor.toLowerCase(), videoId, selection]))
+    .digest('hex');
+}
+
+// The session that runs a job plus the sessions attached to it
+function getJobFilter(jobId: string) {
+  return { $or: [{ sessionId: jobId }, { sourceSessionId: jobId }] };
+}
+
+/**
+ * Register a new session under `cacheKey` and decide how it gets its files.
+ * Every outcome except 'none' counts the session as a reference.
+ */
+export async function resolveCachedDownload(cacheKey: string, sessionId: string): Promise<CacheResolution> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    let entry: ICachedFile;
+    try {
+      entry = await CachedFile.findOneAndUpdate(
+        { cacheKey },
+        { $setOnInsert: { sessionId, status: 'downloading' }, $inc: { refCount: 1 } },
+        { upsert: true, new: true }
+      );
+    } catch (error: any) {
+      // Two upserts raced on the unique key; the next attempt finds the winner
+      if (error.code === 11000) continue;
+      throw error;
+    }
+
+    if (entry.sessionId === sessionId) {
+      return { type: 'producer' };
+    }
+
+    if (entry.status === 'ready' && entry.tempFile && existsSync(entry.tempFile)) {
+      await CachedFile.updateOne({ cacheKey }, { expiresAt: new Date(Date.now() + getCacheRetentionMs()) });
+      return { type: 'hit', entry };
+    }
+
+    if (entry.status === 'downloading') {
+      // 'downloading' sorts before 'queued', so a running job wins
+      const member = await DownloadSession.findOne(
+        { ...getJobFilter(entry.sessionId), status: { $in: ACTIVE_STATUSES } },
+        { status: 1 }
+      ).sort({ status: 1 });
+      if (member) {
+        return { type: 'attach', jobId: entry.sessionId, status: member.status };
+      }
+      // The request that registered the entry may not have stored its session yet
+      if (Date.now() - entry.createdAt.getTime() < SETUP_GRACE && !(await DownloadSession.exists({ sessionId: entry.sessionId }))) {
+        return { type: 'attach', jobId: entry.sessionId, status: 'queued' };
+      }
+    }
+
+    // The files were removed or the job died without settling the entry
+    console.log(`Dropping stale cache entry ${cacheKey}`);
+    await CachedFile.deleteOne({ cacheKey, sessionId: entry.sessionId });
+  }
+
+  console.warn(`Could not settle cache entry ${cacheKey}; downloading without the cache`);
+  return { type: 'none' };
+}
+
+/**
+ * Fields of a session served straight from a cached download.
+ */
+export function getCacheHitFields(entry: ICachedFile, fileExpiresAt: Date) {
+  return {
+    status: 'completed',
+    progress: 100,
+    tempFile: entry.tempFile,
+    fileSize: entry.fileSize,
+    fileCrc32: entry.fileCrc32,
+    contentType: entry.contentType,
+    filename: entry.filename,
+    outputFiles: entry.outputFiles,
+    downloadToken: createDownloadToken(),
+    fileExpiresAt,
+  };
+}
+
+/**
+ * Undo the registration of a producer whose session could not be stored.
+ */
+export async function abandonCacheEntry(cacheKey: string, sessionId: string) {
+  await CachedFile.deleteOne({ cacheKey, sessionId, status: 'downloading' });
+}
+
+/**
+ * Close the gap between resolving and storing an attached session: if the
+ * job finished in between, take its files; if it is gone, run on its own.
+ */
+export async function confirmAttachment(sessionId: string, cacheKey: string, jobId: string, fileExpiresAt: Date) {
+  const entry = await CachedFile.findOne({ cacheKey });
+  if (entry?.sessionId === jobId && entry.status === 'downloading') return;
+
+  if (entry?.sessionId === jobId && entry.status === 'ready') {
+    await DownloadSession.updateOne(
+      { sessionId, status: { $in: ACTIVE_STATUSES } },
+      getCacheHitFields(entry, fileExpiresAt)
+    );
+  } else {
+    await DownloadSession.updateOne(
+      { sessionId, status: { $in: ACTIVE_STATUSES } },
+      { status: 'queued', $unset: { sourceSessionId: 1, cacheKey: 1, workerHost: 1 } }
+    );
+    console.log(`Shared job ${jobId} ended before ${sessionId} attached; downloading on its own`);
+  }
+}
+
+/**
+ * IDs of the sessions following a running job, for progress events.
+ */
+export async function listAttachedSessionIds(jobId: string): Promise<string[]> {
+  const sessions = await DownloadSession.find(
+    { sourceSessionId: jobId, status: 'downloading' },
+    { sessionId: 1 }
+  );
+  return sessions.map((session) => session.sessionId);
+}
+
+/**
+ * Move the sessions waiting on a job to `downloading` once it starts.
+ */
+export async function startAttachedSessions(jobId: string) {
+  const waiting = await DownloadSession.find({ sourceSessionId: jobId, status: 'queued' }, { sessionId: 1 });
+  if (waiting.length === 0) return;
+
+  await DownloadSession.updateMany(
+    { sourceSessionId: jobId, status: 'queued' },
+    { status: 'downloading', workerHost: getWorkerId(), leaseExpiresAt: getLeaseExpiry(), $unset: { queuePosition: 1 } }
+  );
+  for (const session of waiting) {
+    publishDownloadEvent(session.sessionId, 'progress', { status: 'downloading', progress: 0 });
+  }
+}
+
+/**
+ * Hand the output of a finished job to every session attached to it.
+ * Returns the number of attached sessions completed.
+ */
+export async function completeAttachedSessions(job: IDownloadSession, completion: CompletionFields): Promise<number> {
+  const attached = await DownloadSession.find({ sourceSessionId: job.sessionId, status: 'downloading' });
+
+  let completedCount = 0;
+  for (const member of attached) {
+    // Each session gets its own token, so it can expire independently
+    const completed = await DownloadSession.findOneAndUpdate(
+      { sessionId: member.sessionId, status: 'downloading' },
+      { ...completion, downloadToken: createDownloadToken() },
+      { new: true }
+    );
+    if (!completed) continue;
+    completedCount++;
+    publishDownloadEvent(completed.sessionId, 'completed', serializeProgress(completed));
+    await recordArchiveEntry(completed).catch((error) => {
+      console.error('Error recording archive entry:', error);
+    });
+  }
+
+  if (completedCount > 0) {
+    console.log(`Shared download ${job.sessionId} completed ${completedCount} attached session(s)`);
+  }
+  return completedCount;
+}
+
+/**
+ * Keep the output of a finished job for later identical requests.
+ */
+export async function cacheCompletedJob(job: IDownloadSession, completion: CompletionFields) {
+  if (!job.cacheKey) return;
+
+  await CachedFile.updateOne(
+    { cacheKey: job.cacheKey, sessionId: job.sessionId },
+    {
+      status: 'ready',
+      tempFile: completion.tempFile,
+      outputFiles: completion.outputFiles,
+      fileSize: completion.fileSize,
+      fileCrc32: completion.fileCrc32,
+      contentType: completion.contentType,
+      filename: completion.filename,
+      expiresAt: new Date(Date.now() + getCacheRetentionMs()),
+    }
+  );
+}
+
+/**
+ * Fail the sessions attached to a job that failed, and forget the job.
+ */
+export async function failAttachedSessions(jobId: string, errorMsg: string) {
+  const attached = await DownloadSession.find({ sourceSessionId: jobId, status: { $in: ACTIVE_STATUSES } });
+  for (const member of attached) {
+    const result = await DownloadSession.updateOne(
+      { sessionId: member.sessionId, status: { $in: ACTIVE_STATUSES } },
+      { status: 'error', error: errorMsg, $unset: { speed: 1, eta: 1, queuePosition: 1 } }
+    );
+    if (result.modifiedCount > 0) {
+      publishDownloadEvent(member.sessionId, 'failed', { status: 'error', error: errorMsg });
+    }
+  }
+  await CachedFile.deleteOne({ sessionId: jobId, status: 'downloading' });
+}
+
+/**
+ * Put the sessions attached to an interrupted job back in the queue along
+ * with it.
+ */
+export async function requeueAttachedSessions(jobId: string) {
+  await DownloadSession.updateMany(
+    { sourceSessionId: jobId, status: 'downloading' },
+    { status: 'queued', progress: 0, $unset: { phase: 1, speed: 1, eta: 1, workerHost: 1 } }
+  );
+}
+
+/**
+ * Drop a cancelled session's reference to its job. Returns true when other
+ * sessions still need the job, in which case it must keep running. A job
+ * that has not started yet passes to the oldest session waiting on it.
+ */
+export async function detachFromJob(session: IDownloadSession): Promise<boolean> {
+  if (!session.cacheKey) return false;
+
+  const jobId = session.sourceSessionId || session.sessionId;
+  await CachedFile.updateOne({ cacheKey: session.cacheKey, sessionId: jobId }, { $inc: { refCount: -1 } });
+
+  const remaining: IDownloadSession[] = await DownloadSession.find({
+    ...getJobFilter(jobId),
+    status: { $in: ACTIVE_STATUSES },
+  }).sort({ queuedAt: 1, createdAt: 1 });
+
+  if (remaining.length === 0) {
+    await CachedFile.deleteOne({ cacheKey: session.cacheKey, sessionId: jobId, status: 'downloading' });
+    return false;
+  }
+
+  if (jobId === session.sessionId && remaining.every((member) => member.status === 'queued')) {
+    const [successor] = remaining;
+    await DownloadSession.updateOne(
+      { sessionId: successor.sessionId },
+      // Keeps the place in the queue the cancelled session had
+      { queuedAt: session.queuedAt, $unset: { sourceSessionId: 1 } }
+    );
+    await DownloadSession.updateMany(
+      { sourceSessionId: jobId, status: { $in: ACTIVE_STATUSES } },
+      { sourceSessionId: successor.sessionId }
+    );
+    await CachedFile.updateOne(
+      { cacheKey: session.cacheKey, sessionId: jobId },
+      { sessionId: successor.sessionId }
+    );
+    console.log(`Queued download ${jobId} handed over to ${successor.sessionId}`);
+  }
+  return true;
+}
+
+/**
+ * Drop the reference of a session whose retention window has passed.
+ * Returns true when its files belong to the cache, which deletes them once
+ * nothing refers to them any more.
+ */
+export async function releaseCachedFile(session: IDownloadSession): Promise<boolean> {
+  if (!session.cacheKey || !session.tempFile) return false;
+
+  const result = await CachedFile.updateOne(
+    { cacheKey: session.cacheKey, tempFile: session.tempFile, status: 'ready' },
+    { $inc: { refCount: -1 } }
+  );
+  return result.matchedCount > 0;
+}
+
+/**
+ * Delete cached files that no session refers to and that have not been
+ * asked for within the cache retention time.
+ */
+export async function evictCachedFiles() {
+  const candidates = await CachedFile.find({
+    status: 'ready',
+    refCount: { $lte: 0 },
+    expiresAt: { $lte: new Date() },
+  });
+
+  let evicted = 0;
+  for (const entry of candidates) {
+    // A hit may have taken a reference since the query
+    const result = await CachedFile.deleteOne({ _id: entry._id, refCount: { $lte: 0 } });
+    if (result.deletedCount === 0) continue;
+
+    const baseName = entry.tempFile ? getDownloadBaseName(entry.tempFile) : null;
+    if (baseName) {
+      removeDownloadArtifacts(baseName);
+    }
+    evicted++;
+    console.log(`Evicted cached download ${entry.cacheKey}`);
+  }
+  return evicted;
+}
+
+/**
+ * Base names of the files kept by the cache, so the orphan sweep spares them.
+ */
+export async function listCachedBaseNames(): Promise<string[]> {
+  const entries = await CachedFile.find({ tempFile: { $exists: true } }, { tempFile: 1 });
+  return entries
+    .map((entry) => getDownloadBaseName(entry.tempFile!))
+    .filter((baseName): baseName is string => !!baseName);
+}
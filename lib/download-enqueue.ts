@@ -0,0 +1,281 @@
+import DownloadSession, { IDownloadSession } from '@/lib/models/DownloadSession';
+import type { IArchiveEntry } from '@/lib/models/ArchiveEntry';
+import { DownloadOptions, findSelectedFormats, isAudioOnlySelection } from '@/lib/download-options';
+import { SizeEstimate, estimateDownloadSize } from '@/lib/size-estimate';
+import { listChapters } from '@/lib/chapters';
+import { buildQueuedSession, getProvisionalFilename, getScheduledFields } from '@/lib/download-sessions';
+import {
+  CacheResolution,
+  abandonCacheEntry,
+  confirmAttachment,
+  getCacheHitFields,
+  getCacheKey,
+  resolveCachedDownload,
+} from '@/lib/download-cache';
+import { getFileRetentionMs } from '@/lib/file-retention';
+import { findArchiveEntries, getMatchingArchiveQualities, recordArchiveEntry } from '@/lib/download-archive';
+import { canRecordFromStart, isRecordableStream } from '@/lib/live-streams';
+import { getLeaseExpiry } from '@/lib/worker-lease';
+import { YtdlpError, YtdlpVideoInfo, describeYtdlpError, fetchVideoInfo } from '@/lib/ytdlp';
+
+// File size limits (in bytes)
+export const MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024; // 2GB
+const WARN_FILE_SIZE = 500 * 1024 * 1024; // 500MB
+
+export interface EnqueueRequest {
+  scheduledFor?: Date;
+  // Report an earlier download in the same format instead of queueing
+  skipArchived?: boolean;
+  // Extra session fields, e.g. the subscription or batch that holds the video
+  fields?: { subscriptionId?: string; batchId?: string; batchIndex?: number; queuedAt?: Date };
+}
+
+export type EnqueueOutcome =
+  | { status: 'queued'; sessionId: string }
+  | { status: 'scheduled'; sessionId: string; scheduledFor: Date }
+  | { status: 'completed'; sessionId: string; cached: true }
+  | { status: 'skipped'; archived: IArchiveEntry }
+  // 'live' rejections may succeed later, once the stream has ended
+  | { status: 'rejected'; reason: 'live' | 'invalid' | 'too_large'; error: string };
+
+type Rejection = Extract<EnqueueOutcome, { status: 'rejected' }>;
+
+function reject(reason: Rejection['reason'], error: string): Rejection {
+  return { status: 'rejected', reason, error };
+}
+
+/**
+ * Check the options against the video and estimate the size of the
+ * download. What the video info tells about the options is filled in
+ * `options`: a clip end past the end of the video is clamped, and exact
+ * formats without video are marked as such.
+ */
+export function checkDownload(
+  videoInfo: YtdlpVideoInfo,
+  options: DownloadOptions
+): Rejection | { estimate: SizeEstimate } {
+  // A stream that is on air has no end to download up to; it can only be recorded
+  if (isRecordableStream(videoInfo) !== !!options.liveRecording) {
+    return options.liveRecording
+      ? reject('invalid', 'This video is not a live stream')
+      : reject('live', 'This is a live stream; record it instead of downloading it');
+  }
+  if (options.liveFromStart && !canRecordFromStart(videoInfo)) {
+    return reject('invalid', 'This platform does not support recording from the start of a stream');
+  }
+
+  if (options.formatId) {
+    const selected = findSelectedFormats(videoInfo, options.formatId);
+    if (!selected) {
+      return reject('invalid', 'The selected format is not available for this video');
+    }
+    options.audioOnlyFormat = isAudioOnlySelection(selected);
+  }
+
+  if (options.clipStart !== undefined && videoInfo.duration && options.clipStart >= videoInfo.duration) {
+    return reject('invalid', 'Clip start is beyond the end of the video');
+  }
+  if (options.clipEnd !== undefined && videoInfo.duration && options.clipEnd > videoInfo.duration) {
+    options.clipEnd = undefined; // Clamp to the end of the video
+  }
+
+  if (options.chapterMode) {
+    const chapters = listChapters(videoInfo);
+    if (chapters.length === 0) {
+      return reject('invalid', 'This video has no chapters');
+    }
+    if (options.chapterIndexes?.some((index) => index > chapters.length)) {
+      return reject('invalid', 'The selected chapters are not available for this video');
+    }
+  }
+
+  // Estimate from the formats that will actually be fetched; subtitle
+  // files alone are negligible and a recording's length is not known
+  const subtitlesOnly = options.subtitleMode === 'only';
+  const estimate = subtitlesOnly || options.liveRecording ? { bytes: 0, exact: false } : estimateDownloadSize(videoInfo, {
+    quality: options.quality,
+    formatId: options.formatId,
+    audioFormat: options.audioFormat,
+    audioBitrate: options.audioBitrate,
+    compatibilityMode: options.compatibilityMode,
+    clipStart: options.clipStart,
+    clipEnd: options.clipEnd,
+  });
+
+  if (estimate.bytes > MAX_FILE_SIZE) {
+    return reject(
+      'too_large',
+      `File size too large (${Math.round(estimate.bytes / (1024 * 1024))}MB). Maximum allowed size is ${Math.round(MAX_FILE_SIZE / (1024 * 1024))}MB.`
+    );
+  }
+
+  if (estimate.bytes > WARN_FILE_SIZE) {
+    console.warn(`Large file download initiated: ${Math.round(estimate.bytes / (1024 * 1024))}MB`);
+  }
+  return { estimate };
+}
+
+/**
+ * Validate a single-video download against the video's info and store its
+ * session: served from the cache, attached to an identical running job, or
+ * queued (or scheduled) on its own. Shared by every path that creates
+ * downloads so none of them skips a check. Callers run the queue afterwards.
+ * Errors extracting the video info are thrown, unless a scheduled video has
+ * not been released yet.
+ */
+export async function enqueueDownload(
+  url: string,
+  requested: DownloadOptions,
+  request: EnqueueRequest = {}
+): Promise<EnqueueOutcome> {
+  // Clamped below; callers may reuse their options for other videos
+  const options = { ...requested };
+  const { scheduledFor } = request;
+
+  // Get video info to check file size. An upcoming premiere may not be
+  // extractable yet, so a scheduled download goes ahead without it and is
+  // checked once it is due.
+  const videoInfo = scheduledFor
+    ? await fetchVideoInfo(url).catch((error) => {
+        if (!(error instanceof YtdlpError && error.code === 'UPCOMING')) throw error;
+        console.log('Scheduling without video info:', error.message);
+        return null;
+      })
+    : await fetchVideoInfo(url);
+
+  // Already downloaded in this format: report the earlier download instead
+  const extractor = videoInfo?.extractor_key || videoInfo?.extractor;
+  if (request.skipArchived && videoInfo && extractor) {
+    const qualities = getMatchingArchiveQualities(options);
+    const archived = (await findArchiveEntries(extractor, videoInfo.id)).find(
+      (entry) => qualities.includes(entry.quality)
+    );
+    if (archived) {
+      console.log(`Skipping ${url}: already downloaded on ${archived.downloadedAt.toISOString()}`);
+      return { status: 'skipped', archived };
+    }
+  }
+
+  let estimate: SizeEstimate = { bytes: 0, exact: false };
+  if (videoInfo) {
+    const checked = checkDownload(videoInfo, options);
+    if ('status' in checked) return checked;
+    estimate = checked.estimate;
+  }
+  const estimatedSize = estimate.bytes;
+
+  const session = {
+    ...buildQueuedSession(url, options, {
+      title: videoInfo?.title,
+      uploader: videoInfo?.uploader,
+      videoId: videoInfo?.id,
+      extractor,
+    }),
+    ...request.fields,
+  };
+  const { sessionId } = session;
+  console.log('Full temp file path:', session.tempFile);
+
+  // Identical requests share one download: served from the cache when the
+  // files exist, attached to the running job when one is on its way.
+  // Every recording captures a different part of the stream.
+  const cacheKey = videoInfo && extractor && !scheduledFor && !options.liveRecording
+    ? getCacheKey(extractor, videoInfo.id, options)
+    : undefined;
+  const cache: CacheResolution = cacheKey
+    ? await resolveCachedDownload(cacheKey, sessionId)
+    : { type: 'none' };
+  const fileExpiresAt = new Date(Date.now() + getFileRetentionMs());
+
+  if (cache.type === 'hit') {
+    const hit = await DownloadSession.create({
+      ...session,
+      ...getCacheHitFields(cache.entry, fileExpiresAt),
+      cacheKey,
+      estimatedSize,
+      estimatedSizeExact: estimate.exact,
+    });
+    console.log(`Download ${sessionId} served from the cache`);
+    await recordArchiveEntry(hit).catch((error) => {
+      console.error('Error recording archive entry:', error);
+    });
+    return { status: 'completed', sessionId, cached: true };
+  }
+
+  // Create session in MongoDB Atlas; a worker picks it up in FIFO order,
+  // or the scheduler queues it once its time comes
+  try {
+    await DownloadSession.create({
+      ...session,
+      ...(scheduledFor && getScheduledFields(scheduledFor)),
+      ...(cache.type !== 'none' && { cacheKey }),
+      ...(cache.type === 'attach' && { sourceSessionId: cache.jobId, status: cache.status }),
+      // A running job's worker renews this along with its own lease
+      ...(cache.type === 'attach' && cache.status === 'downloading' && { leaseExpiresAt: getLeaseExpiry() }),
+      estimatedSize,
+      estimatedSizeExact: estimate.exact,
+    });
+  } catch (error) {
+    if (cache.type === 'producer') {
+      await abandonCacheEntry(cacheKey!, sessionId);
+    }
+    throw error;
+  }
+
+  if (cache.type === 'attach') {
+    console.log(`Download ${sessionId} attached to the identical job ${cache.jobId}`);
+    await confirmAttachment(sessionId, cacheKey!, cache.jobId, fileExpiresAt);
+  }
+
+  if (scheduledFor) {
+    console.log(`Download ${sessionId} scheduled for ${scheduledFor.toISOString()}`);
+    return { status: 'scheduled', sessionId, scheduledFor };
+  }
+  return { status: 'queued', sessionId };
+}
+
+export type ReleaseCheck =
+  | { status: 'ready'; update: { [key: string]: any } }
+  | { status: 'unreleased' }
+  | { status: 'rejected'; error: string };
+
+/**
+ * Run the download checks on a scheduled session that is due, since it may
+ * have been scheduled before the video could be extracted. Returns the
+ * session update that fills in what the video info provides.
+ */
+export async function checkScheduledSession(session: IDownloadSession): Promise<ReleaseCheck> {
+  let videoInfo: YtdlpVideoInfo;
+  try {
+    videoInfo = await fetchVideoInfo(session.url);
+  } catch (error) {
+    if (error instanceof YtdlpError && error.code === 'UPCOMING') {
+      return { status: 'unreleased' };
+    }
+    return { status: 'rejected', error: describeYtdlpError(error, 'Could not get video info').message };
+  }
+
+  const options = session.toObject() as DownloadOptions;
+  const checked = checkDownload(videoInfo, options);
+  if ('status' in checked) {
+    return { status: 'rejected', error: checked.error };
+  }
+
+  const video = {
+    title: videoInfo.title,
+    uploader: videoInfo.uploader,
+    videoId: videoInfo.id,
+    extractor: videoInfo.extractor_key || videoInfo.extractor,
+  };
+  return {
+    status: 'ready',
+    update: {
+      ...video,
+      filename: getProvisionalFilename(options, video),
+      ...(options.formatId && { audioOnlyFormat: options.audioOnlyFormat }),
+      estimatedSize: checked.estimate.bytes,
+      estimatedSizeExact: checked.estimate.exact,
+      ...(options.clipEnd === undefined && session.clipEnd !== undefined && { $unset: { clipEnd: 1 } }),
+    },
+  };
+}
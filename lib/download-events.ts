@@ -0,0 +1,94 @@
+import { EventEmitter } from 'events';
+
+export type DownloadEventType = 'progress' | 'phase' | 'completed' | 'failed' | 'cancelled';
+
+export interface DownloadEvent {
+  id: number;
+  type: DownloadEventType;
+  data: any;
+}
+
+interface SessionChannel {
+  lastId: number;
+  events: DownloadEvent[];
+  expiryTimer?: NodeJS.Timeout;
+}
+
+// Events kept per session so reconnecting clients can catch up via Last-Event-ID
+const MAX_BUFFERED_EVENTS = 50;
+// How long a finished session's events stay available for late subscribers
+const FINISHED_CHANNEL_TTL = 5 * 60 * 1000;
+
+/**
+ * Global is used here so that every route bundle in the same Node process
+ * shares one event bus, and it survives hot reloads in development.
+ */
+let bus = (global as any).downloadEvents;
+
+if (!bus) {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0);
+  bus = (global as any).downloadEvents = {
+    emitter,
+    channels: new Map<string, SessionChannel>(),
+  };
+}
+
+function getChannel(sessionId: string): SessionChannel {
+  let channel = bus.channels.get(sessionId);
+  if (!channel) {
+    channel = { lastId: 0, events: [] };
+    bus.channels.set(sessionId, channel);
+  }
+  return channel;
+}
+
+/**
+ * Publish an event for a download session to every connected subscriber.
+ */
+export function publishDownloadEvent(sessionId: string, type: DownloadEventType, data: any) {
+  const channel = getChannel(sessionId);
+  const event: DownloadEvent = { id: ++channel.lastId, type, data };
+
+  // Consecutive progress events replace each other; clients only need the latest
+  const previous = channel.events[channel.events.length - 1];
+  if (type === 'progress' && previous?.type === 'progress') {
+    channel.events[channel.events.length - 1] = event;
+  } else {
+    channel.events.push(event);
+    if (channel.events.length > MAX_BUFFERED_EVENTS) {
+      channel.events.shift();
+    }
+  }
+
+  if (type === 'completed' || type === 'failed' || type === 'cancelled') {
+    if (channel.expiryTimer) clearTimeout(channel.expiryTimer);
+    channel.expiryTimer = setTimeout(() => {
+      bus.channels.delete(sessionId);
+    }, FINISHED_CHANNEL_TTL);
+  }
+
+  bus.emitter.emit(sessionId, event);
+}
+
+/**
+ * Subscribe to a session's events. Returns an unsubscribe function.
+ */
+export function subscribeToDownload(sessionId: string, listener: (event: DownloadEvent) => void) {
+  bus.emitter.on(sessionId, listener);
+  return () => {
+    bus.emitter.off(sessionId, listener);
+  };
+}
+
+/**
+ * Buffered events published after `lastEventId`, or null when this process
+ * has no record of the session (e.g. it was started by another instance).
+ */
+export function getDownloadEventsSince(sessionId: string, lastEventId: number): DownloadEvent[] | null {
+  const channel: SessionChannel | undefined = bus.channels.get(sessionId);
+  if (!channel) return null;
+  // Ids restart when the process does; a client ahead of us gets everything
+  if (lastEventId > channel.lastId) return channel.events;
+  return channel.events.filter((event) => event.id > lastEventId);
+}
@@ -0,0 +1,52 @@
+import { existsSync, mkdirSync, readdirSync, rmSync } from 'fs';
+import { basename, join } from 'path';
+
+// Every file belonging to a job starts with this prefix, e.g. download-<uuid>.f137.mp4.part
+const BASE_NAME_PATTERN = /^download-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+// Use a local downloads directory instead of system temp (better for containers)
+export function getDownloadsDir(): string {
+  return join(process.cwd(), 'downloads');
+}
+
+export function ensureDownloadsDir(): string {
+  const downloadsDir = getDownloadsDir();
+  if (!existsSync(downloadsDir)) {
+    console.log('Creating downloads directory');
+    mkdirSync(downloadsDir, { recursive: true });
+  }
+  return downloadsDir;
+}
+
+/**
+ * The `download-<uuid>` prefix shared by a job's output and partial files.
+ */
+export function getDownloadBaseName(filePath: string): string | null {
+  const match = basename(filePath).match(BASE_NAME_PATTERN);
+  return match ? match[0] : null;
+}
+
+/**
+ * Files in the downloads directory that belong to the given base name.
+ */
+export function listDownloadArtifacts(baseName: string): string[] {
+  const downloadsDir = getDownloadsDir();
+  if (!existsSync(downloadsDir)) return [];
+  return readdirSync(downloadsDir)
+    .filter((file) => file.startsWith(baseName))
+    .map((file) => join(downloadsDir, file));
+}
+
+/**
+ * Delete a job's output, partial (.part, .ytdl) and intermediate format files.
+ */
+export function removeDownloadArtifacts(baseName: string) {
+  for (const file of listDownloadArtifacts(baseName)) {
+    try {
+      rmSync(file, { recursive: true, force: true });
+      console.log('Removed download artifact:', file);
+    } catch (err) {
+      console.error('Failed to remove download artifact:', err);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import type { YtdlpProcess } from '@/lib/ytdlp';
+import DownloadSession, { IDownloadSession } from '@/lib/models/DownloadSession';
+import { publishDownloadEvent } from '@/lib/download-events';
+import { getDownloadBaseName, removeDownloadArtifacts } from '@/lib/download-files';
+import { detachFromJob } from '@/lib/download-cache';
+
+/**
+ * Global is used here so that the yt-dlp processes started by one route
+ * bundle can be found (and cancelled) from another, and across hot reloads.
+ */
+let processes: Map<string, YtdlpProcess> = (global as any).downloadProcesses;
+
+if (!processes) {
+  processes = (global as any).downloadProcesses = new Map<string, YtdlpProcess>();
+}
+
+export function registerDownloadProcess(sessionId: string, ytdlpProcess: YtdlpProcess) {
+  processes.set(sessionId, ytdlpProcess);
+  ytdlpProcess.child.once('close', () => {
+    if (processes.get(sessionId) === ytdlpProcess) {
+      processes.delete(sessionId);
+    }
+  });
+}
+
+/**
+ * Kill the yt-dlp process tree of a session. Returns false when no process
+ * for the session is running in this server instance.
+ */
+export function killDownloadProcess(sessionId: string): boolean {
+  const ytdlpProcess = processes.get(sessionId);
+  if (!ytdlpProcess) return false;
+  processes.delete(sessionId);
+  ytdlpProcess.kill();
+  return true;
+}
+
+/**
+ * Cancel a scheduled, queued or in-flight session: mark it cancelled, stop
+ * its process and remove its files. Returns null when the session is not
+ * cancellable. Callers should run the queue afterwards so later sessions
+ * move up.
+ */
+export async function cancelDownload(sessionId: string): Promise<IDownloadSession | null> {
+  const session = await DownloadSession.findOneAndUpdate(
+    { sessionId, status: { $in: ['scheduled', 'queued', 'downloading'] } },
+    { status: 'cancelled', $unset: { speed: 1, eta: 1, queuePosition: 1 } },
+    { new: true }
+  );
+  if (!session) return null;
+
+  // Identical requests that share the job keep it running
+  if (await detachFromJob(session)) {
+    console.log(`Download cancelled: ${sessionId} (job still shared)`);
+    publishDownloadEvent(sessionId, 'cancelled', { status: 'cancelled' });
+    return session;
+  }
+
+  const jobId = session.sourceSessionId || sessionId;
+  const job = jobId === sessionId ? session : await DownloadSession.findOne({ sessionId: jobId });
+
+  const killed = killDownloadProcess(jobId);
+  console.log(`Download cancelled: ${sessionId}${killed ? '' : ' (no local process)'}`);
+
+  // The close handler cleans up too, but the process may live elsewhere or already be gone
+  const baseName = job?.tempFile ? getDownloadBaseName(job.tempFile) : null;
+  if (baseName) {
+    removeDownloadArtifacts(baseName);
+  }
+
+  publishDownloadEvent(sessionId, 'cancelled', { status: 'cancelled' });
+  return session;
+}
+
+/**
+ * Ask the worker recording a live stream to stop. It interrupts yt-dlp,
+ * which finalizes the file so far, and the session completes as usual.
+ * Returns null when the session is not a recording in progress.
+ */
+export async function stopRecording(sessionId: string): Promise<IDownloadSession | null> {
+  const session = await DownloadSession.findOneAndUpdate(
+    { sessionId, liveRecording: true, status: 'downloading' },
+    { stopRequested: true },
+    { new: true }
+  );
+  if (!session) return null;
+
+  console.log(`Recording stop requested: ${sessionId}`);
+  return session;
+}
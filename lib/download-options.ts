@@ -0,0 +1,586 @@
+import type { YtdlpFormat, YtdlpVideoInfo } from '@/lib/ytdlp';
+import { parseTimestamp } from '@/lib/format-utils';
+
+export const VIDEO_CONTAINERS = ['mp4', 'mkv', 'webm'] as const;
+export type VideoContainer = typeof VIDEO_CONTAINERS[number];
+
+// Preferred video codec when a preset leaves the choice to yt-dlp
+export const VIDEO_CODEC_PREFERENCES = ['any', 'av1', 'vp9', 'h264'] as const;
+export type VideoCodecPreference = typeof VIDEO_CODEC_PREFERENCES[number];
+
+export const QUALITY_PRESETS = ['2160p', '1440p', '1080p', '720p', '480p', 'audio'] as const;
+
+// Audio-only outputs; 'original' keeps the source stream without re-encoding
+export const AUDIO_FORMATS = ['mp3', 'm4a', 'opus', 'flac', 'wav', 'original'] as const;
+export type AudioFormat = typeof AUDIO_FORMATS[number];
+
+// Target bitrates (kbit/s) for the lossy audio formats
+export const AUDIO_BITRATES = [64, 96, 128, 160, 192, 256, 320] as const;
+
+const LOSSY_AUDIO_FORMATS: AudioFormat[] = ['mp3', 'm4a', 'opus'];
+
+export function isLossyAudioFormat(format: AudioFormat): boolean {
+  return LOSSY_AUDIO_FORMATS.includes(format);
+}
+
+// What to do with the selected subtitle tracks
+export const SUBTITLE_MODES = ['sidecar', 'embed', 'only'] as const;
+export type SubtitleMode = typeof SUBTITLE_MODES[number];
+
+export const SUBTITLE_FORMATS = ['srt', 'vtt'] as const;
+export type SubtitleFormat = typeof SUBTITLE_FORMATS[number];
+
+// Split the download into one file per chapter, or keep only some chapters
+export const CHAPTER_MODES = ['split', 'select'] as const;
+export type ChapterMode = typeof CHAPTER_MODES[number];
+
+// Quality value stored for downloads that name exact formats instead of a preset
+export const CUSTOM_QUALITY = 'custom';
+
+// How far ahead a download can be scheduled
+export const MAX_SCHEDULE_DAYS = 30;
+
+// Longest live recording, whatever duration or stop time was asked for
+export const MAX_RECORDING_HOURS = 12;
+
+export interface DownloadOptions {
+  quality: string;
+  // Exact yt-dlp selection: one format id or a "video+audio" pair
+  formatId?: string;
+  // Set by the download checks when the selected formats hold no video
+  audioOnlyFormat?: boolean;
+  container: VideoContainer;
+  codecPreference: VideoCodecPreference;
+  // Prefer SDR formats over HDR ones of the same resolution
+  avoidHdr: boolean;
+  // Re-encode to H.264/AAC in MP4 so the file plays everywhere
+  compatibilityMode: boolean;
+  // Only used when quality is 'audio'
+  audioFormat?: AudioFormat;
+  audioBitrate?: number;
+  // Section to download, in seconds; the whole video when unset
+  clipStart?: number;
+  clipEnd?: number;
+  // Re-encode around the cut points instead of cutting at keyframes
+  accurateCuts?: boolean;
+  // Subtitle tracks to fetch; none when empty
+  subtitleLanguages?: string[];
+  subtitleMode?: SubtitleMode;
+  subtitleFormat?: SubtitleFormat;
+  // Tags, chapter markers and cover art written into the file
+  embedMetadata?: boolean;
+  embedChapters?: boolean;
+  embedThumbnail?: boolean;
+  // Sidecars: yt-dlp's raw .info.json and a Kodi-style .nfo
+  writeInfoJson?: boolean;
+  writeNfo?: boolean;
+  chapterMode?: ChapterMode;
+  // 1-based chapter numbers kept in 'select' mode
+  chapterIndexes?: number[];
+  // Record a live or upcoming stream until it ends or a limit is reached
+  liveRecording?: boolean;
+  // Start at the beginning of the stream instead of the live edge
+  liveFromStart?: boolean;
+  // Seconds to record, and/or a time to stop at; the earlier limit wins
+  recordDuration?: number;
+  recordUntil?: Date;
+}
+
+/**
+ * Validate the optional clip range. Timestamps may be seconds or strings such
+ * as "1:02:03"; the end is checked against the duration once it is known.
+ */
+function parseClipOptions(body: any): Pick<DownloadOptions, 'clipStart' | 'clipEnd' | 'accurateCuts'> | { error: string } {
+  const hasStart = body.clipStart !== undefined && body.clipStart !== null && body.clipStart !== '';
+  const hasEnd = body.clipEnd !== undefined && body.clipEnd !== null && body.clipEnd !== '';
+  if (!hasStart && !hasEnd) {
+    return {};
+  }
+
+  const clipStart = hasStart ? parseTimestamp(body.clipStart) : 0;
+  const clipEnd = hasEnd ? parseTimestamp(body.clipEnd) : undefined;
+  if (clipStart === null || clipEnd === null) {
+    return { error: 'Invalid clip start or end time' };
+  }
+  if (clipEnd !== undefined && clipEnd <= clipStart) {
+    return { error: 'Clip end must be after the clip start' };
+  }
+
+  return { clipStart, clipEnd, accurateCuts: body.accurateCuts === true };
+}
+
+const FORMAT_ID_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+// yt-dlp treats --sub-langs entries as regular expressions; only allow plain codes
+const LANGUAGE_PATTERN = /^[A-Za-z0-9_-]+$/;
+const MAX_SUBTITLE_LANGUAGES = 20;
+
+/**
+ * Validate the subtitle fields against the already parsed format options.
+ */
+function parseSubtitleOptions(
+  body: any,
+  options: DownloadOptions
+): Pick<DownloadOptions, 'subtitleLanguages' | 'subtitleMode' | 'subtitleFormat'> | { error: string } {
+  const languages = body.subtitleLanguages ?? [];
+  if (!Array.isArray(languages) || languages.length > MAX_SUBTITLE_LANGUAGES) {
+    return { error: 'Invalid subtitle language selection' };
+  }
+  if (languages.length === 0) {
+    return {};
+  }
+  if (!languages.every((language) => typeof language === 'string' && LANGUAGE_PATTERN.test(language))) {
+    return { error: 'Invalid subtitle language selection' };
+  }
+
+  const subtitleMode = body.subtitleMode ?? 'sidecar';
+  if (!SUBTITLE_MODES.includes(subtitleMode)) {
+    return { error: `Unsupported subtitle mode "${subtitleMode}"` };
+  }
+  const subtitleFormat = body.subtitleFormat ?? 'srt';
+  if (!SUBTITLE_FORMATS.includes(subtitleFormat)) {
+    return { error: `Unsupported subtitle format "${subtitleFormat}"` };
+  }
+
+  // Soft subtitle streams need a video container that can carry them
+  if (subtitleMode === 'embed' && (options.quality === 'audio' || options.container === 'webm')) {
+    return { error: 'Subtitles can only be embedded in MP4 or MKV video' };
+  }
+
+  return { subtitleLanguages: languages, subtitleMode, subtitleFormat };
+}
+
+// Cover art can only be embedded into these extensions
+const THUMBNAIL_UNSUPPORTED = ['webm', 'wav'];
+
+/**
+ * Validate the metadata fields against the already parsed format options.
+ */
+function parseMetadataOptions(
+  body: any,
+  options: DownloadOptions
+): Pick<DownloadOptions, 'embedMetadata' | 'embedChapters' | 'embedThumbnail' | 'writeInfoJson' | 'writeNfo'> | { error: string } {
+  const embedThumbnail = body.embedThumbnail === true;
+  const outputExtension = options.quality === 'audio' ? options.audioFormat : options.container;
+  if (embedThumbnail && outputExtension && THUMBNAIL_UNSUPPORTED.includes(outputExtension)) {
+    return { error: `Cover art cannot be embedded into ${outputExtension.toUpperCase()} files` };
+  }
+
+  return {
+    embedMetadata: body.embedMetadata === true,
+    embedChapters: body.embedChapters === true,
+    embedThumbnail,
+    writeInfoJson: body.writeInfoJson === true,
+    writeNfo: body.writeNfo === true,
+  };
+}
+
+/**
+ * Validate the chapter fields. Chapter numbers are checked against the
+ * video's chapter list once it is known.
+ */
+function parseChapterOptions(
+  body: any,
+  options: DownloadOptions
+): Pick<DownloadOptions, 'chapterMode' | 'chapterIndexes'> | { error: string } {
+  if (!body.chapterMode) {
+    return {};
+  }
+  if (!CHAPTER_MODES.includes(body.chapterMode)) {
+    return { error: `Unsupported chapter mode "${body.chapterMode}"` };
+  }
+  if (options.clipStart !== undefined || options.clipEnd !== undefined) {
+    return { error: 'Chapters cannot be combined with a clip range' };
+  }
+
+  if (body.chapterMode === 'split') {
+    return { chapterMode: 'split' };
+  }
+
+  const indexes = body.chapterIndexes;
+  if (
+    !Array.isArray(indexes) ||
+    indexes.length === 0 ||
+    !indexes.every((index) => Number.isInteger(index) && index > 0)
+  ) {
+    return { error: 'Select at least one chapter' };
+  }
+  return { chapterMode: 'select', chapterIndexes: Array.from(new Set<number>(indexes)).sort((a, b) => a - b) };
+}
+
+/**
+ * Validate the live recording fields. Whether the stream is live, and can be
+ * recorded from the start, is checked once its info is known.
+ */
+function parseLiveOptions(
+  body: any,
+  options: DownloadOptions
+): Pick<DownloadOptions, 'liveRecording' | 'liveFromStart' | 'recordDuration' | 'recordUntil'> | { error: string } {
+  if (body.liveRecording !== true) {
+    return {};
+  }
+  if (options.clipStart !== undefined || options.clipEnd !== undefined || options.chapterMode) {
+    return { error: 'Live recordings cannot be combined with clips or chapters' };
+  }
+  if (options.subtitleMode === 'only') {
+    return { error: 'Live recordings must include the stream' };
+  }
+
+  const maxSeconds = MAX_RECORDING_HOURS * 60 * 60;
+  let recordDuration: number | undefined;
+  if (body.recordDuration !== undefined && body.recordDuration !== null && body.recordDuration !== '') {
+    const seconds = parseTimestamp(body.recordDuration);
+    if (seconds === null || seconds <= 0) {
+      return { error: 'Invalid recording duration' };
+    }
+    if (seconds > maxSeconds) {
+      return { error: `Recordings are limited to ${MAX_RECORDING_HOURS} hours` };
+    }
+    recordDuration = seconds;
+  }
+
+  let recordUntil: Date | undefined;
+  if (body.recordUntil) {
+    recordUntil = new Date(body.recordUntil);
+    if (Number.isNaN(recordUntil.getTime())) {
+      return { error: 'Invalid recording stop time' };
+    }
+    if (recordUntil.getTime() <= Date.now()) {
+      return { error: 'The recording stop time must be in the future' };
+    }
+  }
+
+  return { liveRecording: true, liveFromStart: body.liveFromStart === true, recordDuration, recordUntil };
+}
+
+/**
+ * Validate the format-related fields of a download request. Either `quality`
+ * names a preset, or `formatId` / `videoFormatId` + `audioFormatId` name
+ * exact formats from /api/video-info. Subtitles, metadata, chapter
+ * splitting and live recording may be added to either.
+ */
+export function parseDownloadOptions(body: any): { options: DownloadOptions } | { error: string } {
+  const parsed = parseFormatOptions(body);
+  if ('error' in parsed) {
+    return parsed;
+  }
+
+  const subtitles = parseSubtitleOptions(body, parsed.options);
+  if ('error' in subtitles) {
+    return subtitles;
+  }
+
+  const metadata = parseMetadataOptions(body, parsed.options);
+  if ('error' in metadata) {
+    return metadata;
+  }
+
+  const chapters = parseChapterOptions(body, parsed.options);
+  if ('error' in chapters) {
+    return chapters;
+  }
+
+  const options = { ...parsed.options, ...subtitles, ...metadata, ...chapters };
+  const live = parseLiveOptions(body, options);
+  if ('error' in live) {
+    return live;
+  }
+
+  return { options: { ...options, ...live } };
+}
+
+function parseFormatOptions(body: any): { options: DownloadOptions } | { error: string } {
+  const container = body.container ?? 'mp4';
+  if (!VIDEO_CONTAINERS.includes(container)) {
+    return { error: `Unsupported container "${container}"` };
+  }
+
+  const codecPreference = body.codecPreference ?? 'any';
+  if (!VIDEO_CODEC_PREFERENCES.includes(codecPreference)) {
+    return { error: `Unsupported codec preference "${codecPreference}"` };
+  }
+
+  const compatibilityMode = body.compatibilityMode === true;
+  if (compatibilityMode && container !== 'mp4') {
+    return { error: 'Maximum compatibility mode always produces MP4' };
+  }
+
+  const clip = parseClipOptions(body);
+  if ('error' in clip) {
+    return clip;
+  }
+
+  const video = { container, codecPreference, avoidHdr: body.avoidHdr === true, compatibilityMode, ...clip };
+
+  const parts: string[] = body.formatId
+    ? String(body.formatId).split('+')
+    : [body.videoFormatId, body.audioFormatId].filter(Boolean).map(String);
+
+  if (parts.length > 0) {
+    if (parts.length > 2 || !parts.every((part) => FORMAT_ID_PATTERN.test(part))) {
+      return { error: 'Invalid format selection' };
+    }
+    return { options: { quality: CUSTOM_QUALITY, formatId: parts.join('+'), ...video } };
+  }
+
+  if (!body.quality) {
+    return { error: 'Quality or format selection is required' };
+  }
+  if (!QUALITY_PRESETS.includes(body.quality)) {
+    return { error: `Unsupported quality "${body.quality}"` };
+  }
+
+  if (body.quality !== 'audio') {
+    return { options: { quality: body.quality, ...video } };
+  }
+
+  const audioFormat = body.audioFormat ?? 'mp3';
+  if (!AUDIO_FORMATS.includes(audioFormat)) {
+    return { error: `Unsupported audio format "${audioFormat}"` };
+  }
+
+  let audioBitrate: number | undefined;
+  if (body.audioBitrate !== undefined && body.audioBitrate !== null) {
+    audioBitrate = Number(body.audioBitrate);
+    if (!AUDIO_BITRATES.includes(audioBitrate as typeof AUDIO_BITRATES[number])) {
+      return { error: `Unsupported audio bitrate "${body.audioBitrate}"` };
+    }
+    if (!isLossyAudioFormat(audioFormat)) {
+      return { error: `A bitrate cannot be chosen for ${audioFormat} audio` };
+    }
+  }
+
+  return { options: { quality: 'audio', ...video, audioFormat, audioBitrate } };
+}
+
+/**
+ * Formats named by an exact selection, or null if one of them does not exist.
+ */
+export function findSelectedFormats(info: YtdlpVideoInfo, formatId: string): YtdlpFormat[] | null {
+  const formats = info.formats || [];
+  const selected = formatId.split('+').map((id) => formats.find((format) => format.format_id === id));
+  return selected.every(Boolean) ? (selected as YtdlpFormat[]) : null;
+}
+
+/**
+ * Whether none of the formats has a video stream. Formats that do not name
+ * their video codec are taken to have one.
+ */
+export function isAudioOnlySelection(formats: YtdlpFormat[]): boolean {
+  return formats.every((format) => format.vcodec === 'none');
+}
+
+/**
+ * yt-dlp `-f` selector. Presets merge the best video stream up to the
+ * requested height with the best audio stream, falling back to pre-muxed.
+ */
+export function getFormatSelector(options: {
+  quality: string;
+  formatId?: string;
+  audioFormat?: string;
+}): string {
+  if (options.formatId) {
+    return options.formatId;
+  }
+
+  switch (options.quality) {
+    case '2160p':
+    case '1440p':
+    case '1080p':
+    case '720p':
+    case '480p': {
+      const height = parseInt(options.quality, 10);
+      return `bestvideo[height<=${height}]+bestaudio/best[height<=${height}]`;
+    }
+    case 'audio':
+      // Prefer a source stream in the target codec so it is copied, not re-encoded
+      if (options.audioFormat === 'm4a') return 'bestaudio[ext=m4a]/bestaudio/best';
+      if (options.audioFormat === 'opus') return 'bestaudio[acodec=opus]/bestaudio/best';
+      return 'bestaudio/best';
+    default:
+      return 'bestvideo+bestaudio/best';
+  }
+}
+
+/**
+ * yt-dlp arguments that turn the downloaded stream into the requested audio
+ * file. 'original' only extracts the audio track, keeping its codec.
+ */
+export function getAudioArgs(options: { audioFormat?: string; audioBitrate?: number }): string[] {
+  const audioFormat = options.audioFormat || 'mp3';
+  const args = ['--extract-audio'];
+  if (audioFormat !== 'original') {
+    args.push('--audio-format', audioFormat);
+  }
+  if (options.audioBitrate) {
+    args.push('--audio-quality', `${options.audioBitrate}K`);
+  }
+  return args;
+}
+
+// ffmpeg settings for maximum compatibility: 8-bit H.264 and AAC, with the
+// index at the start of the file so players can begin before it is complete
+const COMPATIBILITY_ENCODER_ARGS =
+  'VideoConvertor:-c:v libx264 -preset medium -crf 20 -profile:v high -pix_fmt yuv420p ' +
+  '-c:a aac -b:a 192k -movflags +faststart';
+
+/**
+ * yt-dlp `-S` order for video presets. Resolution stays first so that a codec
+ * or SDR preference never trades away quality within the height limit.
+ */
+function getFormatSort(options: {
+  container?: string;
+  codecPreference?: string;
+  avoidHdr?: boolean;
+  compatibilityMode?: boolean;
+}): string {
+  const fields = ['res'];
+  if (options.avoidHdr) {
+    fields.push('hdr:SDR');
+  }
+
+  if (options.compatibilityMode) {
+    // Least work for the encoder: start from H.264/AAC where available
+    fields.push('vcodec:h264', 'acodec:aac');
+  } else if (options.codecPreference && options.codecPreference !== 'any') {
+    fields.push(`vcodec:${options.codecPreference === 'av1' ? 'av01' : options.codecPreference}`);
+  }
+
+  // Streams that already fit the container only need to be copied
+  if (options.container === 'mp4') {
+    fields.push('ext:mp4:m4a');
+  } else if (options.container === 'webm') {
+    fields.push('ext:webm:webm');
+  }
+
+  return fields.join(',');
+}
+
+/**
+ * yt-dlp arguments that put the downloaded video streams into the requested
+ * container. Remuxing only copies streams; compatibility mode re-encodes.
+ * Exact formats without video are kept in their own audio container.
+ */
+export function getVideoArgs(options: {
+  formatId?: string;
+  audioOnlyFormat?: boolean;
+  container?: string;
+  codecPreference?: string;
+  avoidHdr?: boolean;
+  compatibilityMode?: boolean;
+}): string[] {
+  const args: string[] = [];
+  if (!options.formatId) {
+    args.push('-S', getFormatSort(options));
+  }
+  if (options.audioOnlyFormat) {
+    return args;
+  }
+
+  if (options.compatibilityMode) {
+    // --recode-video skips files that already are MP4, so remux to MKV first;
+    // yt-dlp runs the remuxer before the converter
+    args.push(
+      '--merge-output-format', 'mkv',
+      '--remux-video', 'mkv',
+      '--recode-video', 'mp4',
+      '--postprocessor-args', COMPATIBILITY_ENCODER_ARGS
+    );
+    return args;
+  }
+
+  const container = options.container || 'mp4';
+  // Separate streams are merged into the container; single-file formats in
+  // another container are remuxed into it
+  args.push('--merge-output-format', container, '--remux-video', container);
+  return args;
+}
+
+/**
+ * yt-dlp arguments that limit the download to the clip range. Fast cuts snap
+ * to the nearest keyframes; accurate cuts re-encode around the cut points.
+ */
+export function getClipArgs(options: { clipStart?: number; clipEnd?: number; accurateCuts?: boolean }): string[] {
+  if (options.clipStart === undefined && options.clipEnd === undefined) {
+    return [];
+  }
+
+  const end = options.clipEnd === undefined ? 'inf' : options.clipEnd;
+  const args = ['--download-sections', `*${options.clipStart || 0}-${end}`];
+  if (options.accurateCuts) {
+    args.push('--force-keyframes-at-cuts');
+  }
+  return args;
+}
+
+/**
+ * yt-dlp arguments for the selected subtitle tracks. Manual tracks win over
+ * automatic captions of the same language.
+ */
+export function getSubtitleArgs(options: {
+  subtitleLanguages?: string[];
+  subtitleMode?: string;
+  subtitleFormat?: string;
+}): string[] {
+  if (!options.subtitleLanguages || options.subtitleLanguages.length === 0) {
+    return [];
+  }
+
+  const args = ['--write-subs', '--write-auto-subs', '--sub-langs', options.subtitleLanguages.join(',')];
+  if (options.subtitleMode === 'embed') {
+    // yt-dlp converts the tracks to whatever the container supports
+    args.push('--embed-subs');
+  } else {
+    args.push('--convert-subs', options.subtitleFormat || 'srt');
+  }
+  if (options.subtitleMode === 'only') {
+    args.push('--skip-download');
+  }
+  return args;
+}
+
+/**
+ * yt-dlp arguments for recording a live stream. An upcoming stream is
+ * polled until it starts. Live HLS is written as MPEG-TS, which stays
+ * playable when the recording is cut short, and remuxed once it ends.
+ */
+export function getLiveArgs(options: { liveRecording?: boolean; liveFromStart?: boolean }): string[] {
+  if (!options.liveRecording) {
+    return [];
+  }
+
+  const args = ['--wait-for-video', '60', '--hls-use-mpegts'];
+  if (options.liveFromStart) {
+    args.push('--live-from-start');
+  }
+  return args;
+}
+
+/**
+ * yt-dlp arguments that embed tags, chapters and cover art into the file and
+ * write the .info.json that the sidecars are built from.
+ */
+export function getMetadataArgs(options: {
+  embedMetadata?: boolean;
+  embedChapters?: boolean;
+  embedThumbnail?: boolean;
+  writeInfoJson?: boolean;
+  writeNfo?: boolean;
+}): string[] {
+  const args: string[] = [];
+  if (options.embedMetadata) {
+    // ID3 for MP3, Vorbis comments for Opus/FLAC, MP4 atoms otherwise
+    args.push('--embed-metadata');
+  }
+  if (options.embedChapters) {
+    args.push('--embed-chapters');
+  }
+  if (options.embedThumbnail) {
+    // Most players only show JPEG cover art
+    args.push('--embed-thumbnail', '--convert-thumbnails', 'jpg');
+  }
+  if (options.writeInfoJson || options.writeNfo) {
+    args.push('--write-info-json');
+  }
+  return args;
+}
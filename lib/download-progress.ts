@@ -0,0 +1,203 @@
+export type DownloadPhase =
+  | 'downloading_video'
+  | 'downloading_audio'
+  | 'recording'
+  | 'merging'
+  | 'post_processing';
+
+export interface DownloadProgress {
+  phase?: DownloadPhase;
+  progress?: number;
+  downloadedBytes?: number;
+  totalBytes?: number;
+  speed?: number;
+  eta?: number;
+  fragmentIndex?: number;
+  fragmentCount?: number;
+  // Length of a live recording so far
+  recordedSeconds?: number;
+}
+
+// Machine-readable progress lines. yt-dlp substitutes "NA" for missing fields,
+// so codecs are pipe-separated plain strings and only the progress dict is JSON.
+export const PROGRESS_TEMPLATE_ARGS = [
+  '--newline',
+  '--progress-template',
+  'download:[progress]%(info.vcodec)s|%(info.acodec)s|%(progress)j',
+  '--progress-template',
+  'postprocess:[postprocess]%(progress)j',
+];
+
+// Post-processor lines printed by yt-dlp when it runs ffmpeg steps
+const POSTPROCESS_PREFIXES: { [key: string]: DownloadPhase } = {
+  '[Merger]': 'merging',
+  '[ExtractAudio]': 'post_processing',
+  '[VideoRemuxer]': 'post_processing',
+  '[VideoConvertor]': 'post_processing',
+  '[FixupM3u8]': 'post_processing',
+  '[FixupM4a]': 'post_processing',
+  '[FixupStretched]': 'post_processing',
+  '[FixupDuplicateMoov]': 'post_processing',
+  '[EmbedSubtitle]': 'post_processing',
+  '[EmbedThumbnail]': 'post_processing',
+  '[Metadata]': 'post_processing',
+};
+
+// Status line of the ffmpeg that yt-dlp runs for live HLS streams, e.g.
+// "frame= 1234 fps= 30 q=-1.0 size=   10240kB time=00:00:41.20 bitrate=..."
+const FFMPEG_STATS = /\bsize=\s*(\d+)\s*(kB|KiB)\s+time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/;
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function hasCodec(codec: string): boolean {
+  return !!codec && codec !== 'none' && codec !== 'NA';
+}
+
+function parseDownloadLine(payload: string): DownloadProgress | null {
+  const [vcodec, acodec, ...rest] = payload.split('|');
+  let data: any;
+  try {
+    data = JSON.parse(rest.join('|'));
+  } catch {
+    return null;
+  }
+
+  const downloadedBytes = toNumber(data.downloaded_bytes);
+  const totalBytes = toNumber(data.total_bytes) ?? toNumber(data.total_bytes_estimate);
+  const fragmentIndex = toNumber(data.fragment_index);
+  const fragmentCount = toNumber(data.fragment_count);
+
+  let progress: number | undefined;
+  if (data.status === 'finished') {
+    progress = 100;
+  } else if (downloadedBytes !== undefined && totalBytes) {
+    progress = (downloadedBytes / totalBytes) * 100;
+  } else if (fragmentIndex !== undefined && fragmentCount) {
+    progress = (fragmentIndex / fragmentCount) * 100;
+  }
+
+  // Audio-only stream when there is no video codec; pre-muxed formats count as video
+  const phase: DownloadPhase =
+    !hasCodec(vcodec) && hasCodec(acodec) ? 'downloading_audio' : 'downloading_video';
+
+  return {
+    phase,
+    progress: progress === undefined ? undefined : Math.min(Math.max(progress, 0), 100),
+    downloadedBytes,
+    totalBytes,
+    speed: toNumber(data.speed),
+    eta: toNumber(data.eta),
+    fragmentIndex,
+    fragmentCount,
+  };
+}
+
+function parseFfmpegStats(match: RegExpExecArray): DownloadProgress {
+  const [, size, , hours, minutes, seconds] = match;
+  return {
+    downloadedBytes: parseInt(size, 10) * 1024,
+    recordedSeconds: parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseFloat(seconds),
+  };
+}
+
+function parsePostprocessLine(payload: string): DownloadProgress | null {
+  try {
+    const data = JSON.parse(payload);
+    return {
+      phase: data.postprocessor === 'Merger' ? 'merging' : 'post_processing',
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a single line of yt-dlp output produced with PROGRESS_TEMPLATE_ARGS.
+ * Returns null for lines that carry no progress information.
+ */
+export function parseProgressLine(line: string): DownloadProgress | null {
+  const trimmed = line.trim();
+
+  if (trimmed.startsWith('[progress]')) {
+    return parseDownloadLine(trimmed.slice('[progress]'.length));
+  }
+  if (trimmed.startsWith('[postprocess]')) {
+    return parsePostprocessLine(trimmed.slice('[postprocess]'.length));
+  }
+
+  const stats = FFMPEG_STATS.exec(trimmed);
+  if (stats) {
+    return parseFfmpegStats(stats);
+  }
+
+  for (const prefix of Object.keys(POSTPROCESS_PREFIXES)) {
+    if (trimmed.startsWith(prefix)) {
+      return { phase: POSTPROCESS_PREFIXES[prefix] };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Stable URL the browser can download a completed file from.
+ */
+export function getFileUrl(session: any): string | undefined {
+  return session.downloadToken ? `/api/files/${session.downloadToken}` : undefined;
+}
+
+/**
+ * Sidecar files of a completed download, served under the same token.
+ */
+export function getAdditionalFiles(session: any) {
+  const fileUrl = getFileUrl(session);
+  if (!fileUrl) return [];
+  return (session.outputFiles || [])
+    .filter((file: any) => file.path !== session.tempFile)
+    .map((file: any) => ({
+      name: file.name,
+      kind: file.kind,
+      language: file.language,
+      url: `${fileUrl}?file=${encodeURIComponent(file.name)}`,
+    }));
+}
+
+/**
+ * Zip of the main file and its sidecars, for downloads that produced several.
+ */
+export function getBundleUrl(session: any): string | undefined {
+  if (!getFileUrl(session) || getAdditionalFiles(session).length === 0) return undefined;
+  return `/api/download?action=bundle&id=${session.sessionId}`;
+}
+
+/**
+ * Shape returned to clients by the progress endpoint.
+ */
+export function serializeProgress(session: any) {
+  return {
+    status: session.status,
+    scheduledFor: session.scheduledFor,
+    queuePosition: session.queuePosition,
+    progress: session.progress,
+    phase: session.phase,
+    downloadedBytes: session.downloadedBytes,
+    totalBytes: session.totalBytes,
+    speed: session.speed,
+    eta: session.eta,
+    fragmentIndex: session.fragmentIndex,
+    fragmentCount: session.fragmentCount,
+    liveRecording: session.liveRecording,
+    recordedSeconds: session.recordedSeconds,
+    stopRequested: session.stopRequested,
+    error: session.error,
+    filename: session.filename,
+    estimatedSize: session.estimatedSize,
+    fileSize: session.fileSize,
+    fileUrl: getFileUrl(session),
+    files: getAdditionalFiles(session),
+    bundleUrl: getBundleUrl(session),
+    fileExpiresAt: session.fileExpiresAt,
+  };
+}
@@ -0,0 +1,179 @@
+import DownloadSession, { IDownloadSession, SESSION_TTL_MS } from '@/lib/models/DownloadSession';
+import DownloadBatch from '@/lib/models/DownloadBatch';
+import { publishDownloadEvent } from '@/lib/download-events';
+import { runDownloadJob } from '@/lib/download-worker';
+import { LEASE_RENEW_INTERVAL, getLeaseExpiry, getWorkerId, renewLeases } from '@/lib/worker-lease';
+
+const DEFAULT_MAX_CONCURRENT_DOWNLOADS = 2;
+
+export function getMaxConcurrentDownloads(): number {
+  const configured = parseInt(process.env.MAX_CONCURRENT_DOWNLOADS || '', 10);
+  return configured > 0 ? configured : DEFAULT_MAX_CONCURRENT_DOWNLOADS;
+}
+
+/**
+ * Global is used here so the worker pool is shared by every route bundle in
+ * the process and is not reset by hot reloads in development.
+ */
+let queue = (global as any).downloadQueue;
+
+if (!queue) {
+  queue = (global as any).downloadQueue = {
+    active: new Set<string>(),
+    draining: null as Promise<void> | null,
+    rerun: false,
+    leaseTimer: null as NodeJS.Timeout | null,
+  };
+}
+
+/**
+ * Sessions whose job runs in this process.
+ */
+export function listActiveDownloads(): string[] {
+  return Array.from(queue.active);
+}
+
+// Keep the leases of running jobs fresh while any are active
+function startLeaseRenewal() {
+  if (queue.leaseTimer) return;
+  queue.leaseTimer = setInterval(async () => {
+    if (queue.active.size === 0) {
+      clearInterval(queue.leaseTimer);
+      queue.leaseTimer = null;
+      return;
+    }
+    try {
+      await renewLeases(listActiveDownloads());
+    } catch (error) {
+      console.error('Failed to renew download leases:', error);
+    }
+  }, LEASE_RENEW_INTERVAL);
+}
+
+/**
+ * Push back the expiry of sessions that are still waiting, and of their
+ * batches, so a long queue is not deleted by the TTL index before it runs.
+ * Only sessions past half their TTL are touched.
+ */
+async function refreshQueuedExpiry() {
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  const stale = { status: 'queued', expiresAt: { $lt: new Date(Date.now() + SESSION_TTL_MS / 2) } };
+
+  const batchIds: string[] = await DownloadSession.distinct('batchId', stale);
+  const result = await DownloadSession.updateMany(stale, { expiresAt });
+  if (batchIds.length > 0) {
+    await extendBatchExpiry(batchIds, expiresAt);
+  }
+  if (result.modifiedCount > 0) {
+    console.log(`Extended the expiry of ${result.modifiedCount} queued session(s)`);
+  }
+}
+
+// A batch expires with the last of its child sessions
+function extendBatchExpiry(batchIds: string[], expiresAt: Date) {
+  return DownloadBatch.updateMany({ batchId: { $in: batchIds } }, { $max: { expiresAt } });
+}
+
+/**
+ * Recompute the 1-based position of every queued session and notify
+ * subscribers whose position changed.
+ */
+export async function updateQueuePositions() {
+  await refreshQueuedExpiry();
+
+  const queued: IDownloadSession[] = await DownloadSession.find(
+    { status: 'queued', sourceSessionId: { $exists: false } },
+    { sessionId: 1, queuePosition: 1 }
+  ).sort({ queuedAt: 1, createdAt: 1 });
+  const positions = new Map(queued.map((session, index) => [session.sessionId, index + 1]));
+
+  // Sessions attached to a queued job share its place in line
+  const attached: IDownloadSession[] = await DownloadSession.find(
+    { status: 'queued', sourceSessionId: { $exists: true } },
+    { sessionId: 1, sourceSessionId: 1, queuePosition: 1 }
+  );
+
+  const changed = [...queued, ...attached]
+    .map((session) => ({ session, queuePosition: positions.get(session.sourceSessionId || session.sessionId) }))
+    .filter((item): item is { session: IDownloadSession; queuePosition: number } =>
+      item.queuePosition !== undefined && item.session.queuePosition !== item.queuePosition
+    );
+
+  if (changed.length === 0) return;
+
+  await DownloadSession.bulkWrite(
+    changed.map(({ session, queuePosition }) => ({
+      updateOne: {
+        filter: { sessionId: session.sessionId, status: 'queued' },
+        update: { queuePosition },
+      },
+    }))
+  );
+
+  for (const { session, queuePosition } of changed) {
+    publishDownloadEvent(session.sessionId, 'progress', { status: 'queued', progress: 0, queuePosition });
+  }
+}
+
+// Claim the oldest queued session, atomically so two drains never pick the same one
+function claimNextSession(): Promise<IDownloadSession | null> {
+  return DownloadSession.findOneAndUpdate(
+    // Attached sessions wait for the job they follow
+    { status: 'queued', sourceSessionId: { $exists: false } },
+    {
+      status: 'downloading',
+      workerHost: getWorkerId(),
+      leaseExpiresAt: getLeaseExpiry(),
+      // Counted from the start so a long-queued job keeps its full retention window
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+      $unset: { queuePosition: 1 },
+    },
+    { sort: { queuedAt: 1, createdAt: 1 }, new: true }
+  );
+}
+
+async function drainQueue() {
+  do {
+    queue.rerun = false;
+
+    while (queue.active.size < getMaxConcurrentDownloads()) {
+      const session = await claimNextSession();
+      if (!session) break;
+      if (session.batchId) {
+        await extendBatchExpiry([session.batchId], session.expiresAt);
+      }
+
+      console.log(`Starting queued download ${session.sessionId} (${queue.active.size + 1}/${getMaxConcurrentDownloads()} workers)`);
+      publishDownloadEvent(session.sessionId, 'progress', { status: 'downloading', progress: 0 });
+
+      queue.active.add(session.sessionId);
+      startLeaseRenewal();
+      runDownloadJob(session)
+        .catch((error) => console.error('Download job crashed:', error))
+        .finally(() => {
+          queue.active.delete(session.sessionId);
+          processDownloadQueue();
+        });
+    }
+
+    await updateQueuePositions();
+  } while (queue.rerun);
+}
+
+/**
+ * Start queued downloads until every worker slot is busy. Safe to call from
+ * anywhere; concurrent calls are folded into the running drain.
+ */
+export function processDownloadQueue(): Promise<void> {
+  if (queue.draining) {
+    queue.rerun = true;
+    return queue.draining;
+  }
+
+  queue.draining = drainQueue()
+    .catch((error) => console.error('Failed to process download queue:', error))
+    .finally(() => {
+      queue.draining = null;
+    });
+  return queue.draining;
+}
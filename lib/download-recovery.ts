@@ -0,0 +1,234 @@
+import { existsSync, readdirSync, rmSync, statSync } from 'fs';
+import { join } from 'path';
+import DownloadSession, { SESSION_TTL_MS } from '@/lib/models/DownloadSession';
+import DownloadBatch from '@/lib/models/DownloadBatch';
+import {
+  getDownloadBaseName,
+  getDownloadsDir,
+  removeDownloadArtifacts,
+} from '@/lib/download-files';
+import { listActiveDownloads, processDownloadQueue } from '@/lib/download-queue';
+import { resumeInterruptedBatches } from '@/lib/download-batches';
+import { LEASE_DURATION_MS } from '@/lib/worker-lease';
+import connectToDatabase from '@/lib/mongodb';
+import {
+  failAttachedSessions,
+  listCachedBaseNames,
+  requeueAttachedSessions,
+} from '@/lib/download-cache';
+
+export type RecoveryMode = 'requeue' | 'fail';
+
+// A job that keeps dying with the server is failed instead of retried forever
+const MAX_RECOVERY_ATTEMPTS = 3;
+
+export function getRecoveryMode(): RecoveryMode {
+  return process.env.DOWNLOAD_RECOVERY_MODE === 'fail' ? 'fail' : 'requeue';
+}
+
+/**
+ * Running sessions whose worker is gone: their lease has lapsed or was never
+ * taken. Jobs of the previous run are reclaimed once their lease lapses,
+ * like those of any other server.
+ */
+function getInterruptedFilter() {
+  return {
+    status: 'downloading',
+    sessionId: { $nin: listActiveDownloads() },
+    $or: [
+      { leaseExpiresAt: { $lt: new Date() } },
+      { leaseExpiresAt: { $exists: false } },
+    ],
+  };
+}
+
+/**
+ * Sessions left in `downloading` by a worker that stopped, e.g. a server
+ * restart or a redeploy. Their yt-dlp process died with it, so nothing will
+ * ever finish them.
+ */
+async function recoverInterruptedSessions(mode: RecoveryMode) {
+  const interrupted = await DownloadSession.find({
+    ...getInterruptedFilter(),
+    sourceSessionId: { $exists: false },
+  });
+
+  for (const session of interrupted) {
+    const attempts = session.recoveryAttempts || 0;
+
+    if (mode === 'requeue' && attempts < MAX_RECOVERY_ATTEMPTS) {
+      // Partial files are kept: yt-dlp continues .part/.ytdl files at the same output path
+      await DownloadSession.updateOne(
+        { sessionId: session.sessionId, status: 'downloading' },
+        {
+          status: 'queued',
+          progress: 0,
+          $inc: { recoveryAttempts: 1 },
+          $unset: {
+            phase: 1,
+            speed: 1,
+            eta: 1,
+            workerHost: 1,
+            leaseExpiresAt: 1,
+          },
+        }
+      );
+      await requeueAttachedSessions(session.sessionId);
+      console.log(`Re-queued interrupted download ${session.sessionId} (attempt ${attempts + 1})`);
+    } else {
+      await DownloadSession.updateOne(
+        { sessionId: session.sessionId, status: 'downloading' },
+        {
+          status: 'error',
+          error: 'Download was interrupted by a server restart',
+          $unset: { speed: 1, eta: 1 },
+        }
+      );
+      const baseName = session.tempFile ? getDownloadBaseName(session.tempFile) : null;
+      if (baseName) {
+        removeDownloadArtifacts(baseName);
+      }
+      await failAttachedSessions(session.sessionId, 'Download was interrupted by a server restart');
+      console.log(`Marked interrupted download ${session.sessionId} as failed`);
+    }
+  }
+
+  // Attached sessions whose job is no longer renewed, e.g. it was cancelled
+  // by its own requester: each goes back in the queue on its own
+  const orphaned = await DownloadSession.find({
+    ...getInterruptedFilter(),
+    sourceSessionId: { $exists: true },
+  });
+  for (const session of orphaned) {
+    await DownloadSession.updateOne(
+      { sessionId: session.sessionId, status: 'downloading' },
+      {
+        status: 'queued',
+        progress: 0,
+        $unset: { sourceSessionId: 1, cacheKey: 1, phase: 1, speed: 1, eta: 1, workerHost: 1, leaseExpiresAt: 1 },
+      }
+    );
+    console.log(`Re-queued download ${session.sessionId} on its own after its shared job was lost`);
+  }
+
+  return interrupted.length + orphaned.length;
+}
+
+/**
+ * Delete everything in the downloads directory that no DownloadSession refers
+ * to, e.g. leftovers of sessions removed by the TTL index. Jobs may start
+ * while this runs, so files newer than the session snapshot are kept.
+ */
+export async function removeOrphanedFiles() {
+  const downloadsDir = getDownloadsDir();
+  if (!existsSync(downloadsDir)) return 0;
+
+  const snapshotAt = Date.now();
+  const sessions = await DownloadSession.find(
+    { tempFile: { $exists: true } },
+    { tempFile: 1 }
+  );
+  const knownBaseNames = new Set([
+    ...sessions.map((session: any) => getDownloadBaseName(session.tempFile)).filter(Boolean),
+    ...(await listCachedBaseNames()),
+  ]);
+
+  let removed = 0;
+  for (const entry of readdirSync(downloadsDir)) {
+    const baseName = getDownloadBaseName(entry);
+    if (baseName && knownBaseNames.has(baseName)) continue;
+
+    try {
+      const path = join(downloadsDir, entry);
+      if (statSync(path).mtimeMs >= snapshotAt) continue;
+      rmSync(path, { recursive: true, force: true });
+      removed++;
+      console.log('Removed orphaned download file:', entry);
+    } catch (err) {
+      console.error('Failed to remove orphaned download file:', err);
+    }
+  }
+  return removed;
+}
+
+/**
+ * Sessions and batches used to expire 24 hours after `createdAt`, which
+ * would delete downloads scheduled or queued further ahead. Replace those TTL
+ * indexes with the ones on `expiresAt` and give older documents an expiry time.
+ */
+export async function migrateSessionExpiry() {
+  try {
+    await DownloadSession.collection.dropIndex('createdAt_1');
+    console.log('Dropped the createdAt TTL index of download sessions');
+  } catch {
+    // Already gone
+  }
+
+  const result = await DownloadSession.updateMany(
+    { expiresAt: { $exists: false } },
+    [{ $set: { expiresAt: { $add: ['$createdAt', SESSION_TTL_MS] } } }]
+  );
+  if (result.modifiedCount > 0) {
+    console.log(`Set an expiry time on ${result.modifiedCount} older session(s)`);
+  }
+
+  // Batches too expired 24 hours after creation, even while still running
+  try {
+    await DownloadBatch.collection.dropIndex('createdAt_1');
+    console.log('Dropped the createdAt TTL index of download batches');
+  } catch {
+    // Already gone
+  }
+
+  const batches = await DownloadBatch.updateMany(
+    { expiresAt: { $exists: false } },
+    [{ $set: { expiresAt: { $add: ['$createdAt', SESSION_TTL_MS] } } }]
+  );
+  if (batches.modifiedCount > 0) {
+    console.log(`Set an expiry time on ${batches.modifiedCount} older batch(es)`);
+  }
+}
+
+/**
+ * Startup reconciliation: settle sessions interrupted by the last shutdown,
+ * resume batches whose entries were still being queued, sweep orphaned
+ * files and restart the queue.
+ */
+export async function reconcileDownloads() {
+  const mode = getRecoveryMode();
+  console.log(`Reconciling downloads after startup (mode: ${mode})`);
+
+  await migrateSessionExpiry();
+
+  const interrupted = await recoverInterruptedSessions(mode);
+  const batches = await resumeInterruptedBatches();
+  const orphaned = await removeOrphanedFiles();
+  console.log(
+    `Reconciliation finished: ${interrupted} interrupted session(s), ${batches} batch(es) resumed, ${orphaned} orphaned file(s) removed`
+  );
+
+  await processDownloadQueue();
+}
+
+/**
+ * Reclaim jobs of other servers once their lease lapses, so a crashed or
+ * replaced instance does not leave its sessions stuck. Started once per
+ * process.
+ */
+export function startRecoverySweeper() {
+  if ((global as any).downloadRecoverySweeper) return;
+
+  (global as any).downloadRecoverySweeper = setInterval(async () => {
+    try {
+      await connectToDatabase();
+      const interrupted = await recoverInterruptedSessions(getRecoveryMode());
+      if (interrupted > 0) {
+        console.log(`Recovered ${interrupted} download(s) whose worker stopped`);
+        await processDownloadQueue();
+      }
+      await resumeInterruptedBatches();
+    } catch (error) {
+      console.error('Download recovery sweep failed:', error);
+    }
+  }, LEASE_DURATION_MS);
+}
@@ -0,0 +1,140 @@
+import connectToDatabase from '@/lib/mongodb';
+import DownloadSession, { IDownloadSession, SESSION_TTL_MS } from '@/lib/models/DownloadSession';
+import { publishDownloadEvent } from '@/lib/download-events';
+import { processDownloadQueue } from '@/lib/download-queue';
+import { MAX_SCHEDULE_DAYS } from '@/lib/download-options';
+import { getScheduledFields } from '@/lib/download-sessions';
+import { checkScheduledSession } from '@/lib/download-enqueue';
+import { getLeaseExpiry } from '@/lib/worker-lease';
+
+// A time this far in the past is a clock difference, not a mistake
+const SCHEDULE_TOLERANCE = 60 * 1000; // 1 minute
+
+const SCHEDULER_INTERVAL = 30 * 1000; // 30 seconds
+
+/**
+ * Parse the optional `scheduledFor` of a request: an ISO 8601 string or a
+ * millisecond timestamp within the next MAX_SCHEDULE_DAYS days.
+ */
+export function parseScheduledFor(value: unknown): { scheduledFor?: Date } | { error: string } {
+  if (value === undefined || value === null || value === '') {
+    return {};
+  }
+
+  const scheduledFor = new Date(typeof value === 'number' ? value : String(value));
+  if (isNaN(scheduledFor.getTime())) {
+    return { error: 'scheduledFor must be a date and time' };
+  }
+  if (scheduledFor.getTime() < Date.now() - SCHEDULE_TOLERANCE) {
+    return { error: 'The scheduled time has already passed' };
+  }
+  if (scheduledFor.getTime() > Date.now() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+    return { error: `Downloads can be scheduled at most ${MAX_SCHEDULE_DAYS} days ahead` };
+  }
+  return { scheduledFor };
+}
+
+/**
+ * Move a scheduled session to another time. Returns null when the session
+ * does not exist or has already left the schedule.
+ */
+export function rescheduleDownload(sessionId: string, scheduledFor: Date): Promise<IDownloadSession | null> {
+  return DownloadSession.findOneAndUpdate(
+    { sessionId, status: 'scheduled' },
+    { $set: getScheduledFields(scheduledFor), $unset: { leaseExpiresAt: 1 } },
+    { new: true }
+  );
+}
+
+// A due video that is not out yet, e.g. a premiere running late, is
+// checked again this often until it has been waiting this long
+const RELEASE_RETRY_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const MAX_RELEASE_DELAY = 2 * 60 * 60 * 1000; // 2 hours
+
+/**
+ * Check a due session the way a new download is checked and queue it, or
+ * fail it with the reason. Returns whether it was queued.
+ */
+async function releaseSession(session: IDownloadSession): Promise<boolean> {
+  const { sessionId } = session;
+  // Cancelled or rescheduled while it was being checked
+  const unchanged = { sessionId, status: 'scheduled', scheduledFor: session.scheduledFor };
+
+  let check = await checkScheduledSession(session);
+  if (check.status === 'unreleased') {
+    if (Date.now() < session.scheduledFor!.getTime() + MAX_RELEASE_DELAY) {
+      console.log(`Scheduled download ${sessionId} is due but the video is not out yet; retrying later`);
+      await DownloadSession.updateOne(unchanged, { leaseExpiresAt: new Date(Date.now() + RELEASE_RETRY_INTERVAL) });
+      return false;
+    }
+    check = { status: 'rejected', error: 'The video was still not released long after the scheduled time' };
+  }
+
+  if (check.status === 'rejected') {
+    console.log(`Scheduled download ${sessionId} failed its checks: ${check.error}`);
+    await DownloadSession.updateOne(unchanged, {
+      status: 'error',
+      error: check.error,
+      $unset: { leaseExpiresAt: 1 },
+    });
+    publishDownloadEvent(sessionId, 'failed', { status: 'error', error: check.error });
+    return false;
+  }
+
+  const { $unset, ...fields } = check.update;
+  const result = await DownloadSession.updateOne(unchanged, {
+    ...fields,
+    status: 'queued',
+    queuedAt: new Date(),
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+    $unset: { ...$unset, leaseExpiresAt: 1 },
+  });
+  if (result.modifiedCount === 0) return false;
+
+  console.log(`Scheduled download ${sessionId} is due; queueing it`);
+  publishDownloadEvent(sessionId, 'progress', { status: 'queued', progress: 0 });
+  return true;
+}
+
+/**
+ * Check and queue every scheduled session whose time has come. Each one is
+ * claimed with a lease first so two processes never release the same
+ * session, and one whose checker died is picked up again.
+ */
+export async function releaseDueSessions() {
+  let released = 0;
+  let session: IDownloadSession | null;
+
+  while ((session = await DownloadSession.findOneAndUpdate(
+    {
+      status: 'scheduled',
+      scheduledFor: { $lte: new Date() },
+      $or: [{ leaseExpiresAt: { $exists: false } }, { leaseExpiresAt: { $lt: new Date() } }],
+    },
+    { leaseExpiresAt: getLeaseExpiry() },
+    { sort: { scheduledFor: 1 }, new: true }
+  ))) {
+    if (await releaseSession(session)) released++;
+  }
+
+  if (released > 0) {
+    await processDownloadQueue();
+  }
+  return released;
+}
+
+/**
+ * Start the periodic check for due downloads once per process.
+ */
+export function startDownloadScheduler() {
+  if ((global as any).downloadScheduler) return;
+
+  (global as any).downloadScheduler = setInterval(async () => {
+    try {
+      await connectToDatabase();
+      await releaseDueSessions();
+    } catch (error) {
+      console.error('Scheduled download check failed:', error);
+    }
+  }, SCHEDULER_INTERVAL);
+}
@@ -0,0 +1,83 @@
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import type { DownloadOptions } from '@/lib/download-options';
+import { ensureDownloadsDir } from '@/lib/download-files';
+import { renderFilename } from '@/lib/filename';
+import { getContentType } from '@/lib/media-types';
+import { SESSION_TTL_MS } from '@/lib/models/DownloadSession';
+
+// Video metadata stored on a session so files can be named without yt-dlp
+export interface SessionVideoFields {
+  title?: string;
+  uploader?: string;
+  videoId?: string;
+  extractor?: string;
+}
+
+/**
+ * Extension the download is expected to have. Provisional: the worker
+ * replaces it with the real one once the file exists.
+ */
+export function getProvisionalExtension(options: DownloadOptions): string {
+  if (options.subtitleMode === 'only') {
+    return options.subtitleFormat!;
+  }
+  if (options.quality === 'audio') {
+    // 'original' audio keeps whatever codec the source stream has
+    return options.audioFormat === 'original' ? 'm4a' : options.audioFormat!;
+  }
+  return options.container;
+}
+
+/**
+ * Name the browser saves the download as, until the worker knows the real
+ * extension.
+ */
+export function getProvisionalFilename(options: DownloadOptions, video: SessionVideoFields): string {
+  return renderFilename({
+    title: video.title,
+    uploader: video.uploader,
+    id: video.videoId,
+    extractor: video.extractor,
+    quality: options.quality,
+    ext: getProvisionalExtension(options),
+  });
+}
+
+/**
+ * Fields that make a new session wait until `scheduledFor`. The session
+ * must outlive the wait, so its expiry counts from the scheduled time.
+ */
+export function getScheduledFields(scheduledFor: Date) {
+  return {
+    status: 'scheduled',
+    scheduledFor,
+    expiresAt: new Date(scheduledFor.getTime() + SESSION_TTL_MS),
+  };
+}
+
+/**
+ * Fields of a new queued DownloadSession for one URL. Every job gets its own
+ * `download-<uuid>` base name in the downloads directory.
+ */
+export function buildQueuedSession(url: string, options: DownloadOptions, video: SessionVideoFields) {
+  const fileExtension = getProvisionalExtension(options);
+
+  const downloadsDir = ensureDownloadsDir();
+  const tempBaseName = `download-${randomUUID()}`;
+  // yt-dlp fills in the extension of whatever it produces
+  const tempFile = join(downloadsDir, `${tempBaseName}.%(ext)s`);
+
+  return {
+    sessionId: randomUUID(),
+    url,
+    ...video,
+    ...options,
+    status: 'queued',
+    queuedAt: new Date(),
+    progress: 0,
+    contentType: getContentType(fileExtension),
+    filename: getProvisionalFilename(options, video),
+    tempFile,
+  };
+}
@@ -0,0 +1,501 @@
+import { existsSync, renameSync, rmSync, statSync } from 'fs';
+import { dirname, join } from 'path';
+import DownloadSession, { IDownloadSession, IOutputFile } from '@/lib/models/DownloadSession';
+import {
+  DownloadProgress,
+  PROGRESS_TEMPLATE_ARGS,
+  parseProgressLine,
+  serializeProgress,
+} from '@/lib/download-progress';
+import { publishDownloadEvent } from '@/lib/download-events';
+import {
+  getDownloadBaseName,
+  listDownloadArtifacts,
+  removeDownloadArtifacts,
+} from '@/lib/download-files';
+import { registerDownloadProcess } from '@/lib/download-jobs';
+import { YtdlpError, startYtdlpDownload } from '@/lib/ytdlp';
+import {
+  getAudioArgs,
+  getClipArgs,
+  MAX_RECORDING_HOURS,
+  getFormatSelector,
+  getLiveArgs,
+  getMetadataArgs,
+  getSubtitleArgs,
+  getVideoArgs,
+} from '@/lib/download-options';
+import { getSubtitleLanguage, isSubtitleFile } from '@/lib/subtitles';
+import { writeMetadataSidecars } from '@/lib/metadata';
+import { limitFilename, renderFilename } from '@/lib/filename';
+import { findChapterFiles, getChapterArgs, isChapterFile } from '@/lib/chapters';
+import { crc32File } from '@/lib/zip';
+import { getContentType, getExtension } from '@/lib/media-types';
+import { getFileRetentionMs } from '@/lib/file-retention';
+import { recordArchiveEntry } from '@/lib/download-archive';
+import { getRecordingDeadline } from '@/lib/live-streams';
+import {
+  CompletionFields,
+  cacheCompletedJob,
+  completeAttachedSessions,
+  createDownloadToken,
+  failAttachedSessions,
+  listAttachedSessionIds,
+  startAttachedSessions,
+} from '@/lib/download-cache';
+
+// Kill yt-dlp if a single job takes longer than this
+const DOWNLOAD_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+
+// How often a live recording checks its limits and the Stop button
+const RECORDING_CHECK_INTERVAL = 2000;
+
+function buildDownloadArgs(session: IDownloadSession): string[] {
+  const args = [
+    '-f',
+    getFormatSelector(session),
+    '-o',
+    session.tempFile!, // Full path output template
+    '--no-playlist',
+    ...PROGRESS_TEMPLATE_ARGS,
+    ...getSubtitleArgs(session),
+    ...getMetadataArgs(session),
+  ];
+
+  // Subtitles alone skip the media download and its post-processing
+  if (isSubtitlesOnly(session)) {
+    return args;
+  }
+
+  args.push(...getClipArgs(session), ...getLiveArgs(session));
+  if (session.chapterMode) {
+    const tempFile = session.tempFile!;
+    args.push(...getChapterArgs(dirname(tempFile), getDownloadBaseName(tempFile)!));
+  }
+
+  if (session.quality === 'audio') {
+    args.push(...getAudioArgs(session));
+  } else {
+    args.push(...getVideoArgs(session));
+  }
+
+  return args;
+}
+
+/**
+ * Name the browser saves a file as, from the configured filename template.
+ * `ext` may carry a qualifier such as "en.srt" or "info.json".
+ */
+function getDownloadFilename(session: IDownloadSession, ext: string): string {
+  return renderFilename({
+    title: session.title,
+    uploader: session.uploader,
+    id: session.videoId,
+    extractor: session.extractor,
+    quality: session.quality,
+    ext,
+  });
+}
+
+function isSubtitlesOnly(session: IDownloadSession): boolean {
+  return session.subtitleMode === 'only' && !!session.subtitleLanguages?.length;
+}
+
+/**
+ * Find the file yt-dlp produced. It may add or change the extension, so
+ * fall back to any finished file that starts with the job's base name.
+ */
+function findOutputFile(tempFile: string, tempBaseName: string): string | null {
+  if (existsSync(tempFile)) return tempFile;
+
+  // Skip .part/.ytdl leftovers and per-format (.f137.mp4) or .temp intermediates
+  const files = listDownloadArtifacts(tempBaseName).filter(
+    (file) =>
+      !/\.(part|ytdl)$/.test(file) &&
+      !/\.(f[\w-]+|temp)\.\w+$/.test(file) &&
+      !isSubtitleFile(file) &&
+      !isMetadataFile(file) &&
+      !isChapterFile(file)
+  );
+  if (files.length > 0) {
+    console.log('Found output file:', files[0]);
+    return files[0];
+  }
+  return null;
+}
+
+/**
+ * Keep what a stopped recording wrote when yt-dlp exited without finishing
+ * it. Only a single-stream .part can be used as it is; fragments of
+ * separate video and audio formats would still need merging.
+ */
+function recoverStoppedRecording(tempBaseName: string): string | null {
+  const partial = listDownloadArtifacts(tempBaseName).find(
+    (file) => file.endsWith('.part') && !/\.(f[\w-]+|temp)\.\w+\.part$/.test(file)
+  );
+  if (!partial) return null;
+
+  const outputFile = partial.slice(0, -'.part'.length);
+  renameSync(partial, outputFile);
+  console.log('Recovered stopped recording:', outputFile);
+  return outputFile;
+}
+
+/**
+ * Longest a job may run. A recording may wait for its stream until the stop
+ * time, then record for up to the maximum length, then be post-processed.
+ */
+function getJobTimeout(session: IDownloadSession): number {
+  if (!session.liveRecording) return DOWNLOAD_TIMEOUT;
+  const untilStop = session.recordUntil ? Math.max(session.recordUntil.getTime() - Date.now(), 0) : 0;
+  return untilStop + MAX_RECORDING_HOURS * 60 * 60 * 1000 + DOWNLOAD_TIMEOUT;
+}
+
+// Sidecars and leftover thumbnails are never the main file
+function isMetadataFile(file: string): boolean {
+  return /\.(info\.json|nfo|jpe?g|png|webp)$/i.test(file);
+}
+
+/**
+ * Build the requested .nfo from yt-dlp's .info.json and describe the metadata
+ * sidecars that remain.
+ */
+function finishMetadataFiles(session: IDownloadSession, tempBaseName: string): IOutputFile[] {
+  if (!session.writeInfoJson && !session.writeNfo) return [];
+
+  const infoJson = listDownloadArtifacts(tempBaseName).find((file) => file.endsWith('.info.json'));
+  if (!infoJson) {
+    console.log('No .info.json was written; skipping metadata sidecars');
+    return [];
+  }
+
+  const nfoPath = join(dirname(infoJson), `${tempBaseName}.nfo`);
+  writeMetadataSidecars(infoJson, nfoPath, session);
+
+  const files: IOutputFile[] = [];
+  if (session.writeInfoJson && existsSync(infoJson)) {
+    files.push({
+      name: getDownloadFilename(session, 'info.json'),
+      path: infoJson,
+      contentType: 'application/json',
+      kind: 'metadata',
+    });
+  }
+  if (session.writeNfo && existsSync(nfoPath)) {
+    files.push({
+      name: getDownloadFilename(session, 'nfo'),
+      path: nfoPath,
+      contentType: 'text/xml',
+      kind: 'metadata',
+    });
+  }
+  return files;
+}
+
+/**
+ * Replace the uncut file with the requested chapters, one output file each.
+ * The first chapter becomes the main file; all of them are served together
+ * as a bundle. Returns an empty list when yt-dlp produced none of them.
+ */
+function collectChapterFiles(
+  session: IDownloadSession,
+  tempBaseName: string,
+  fullFile: string
+): IOutputFile[] {
+  const allChapters = findChapterFiles(tempBaseName);
+  const chapters = session.chapterMode === 'select'
+    ? allChapters.filter((chapter) => session.chapterIndexes?.includes(chapter.index))
+    : allChapters;
+  console.log(`Found ${allChapters.length} chapter files, keeping ${chapters.length}`);
+  if (chapters.length === 0) return [];
+
+  // Neither the uncut file nor unselected chapters are part of the result
+  for (const chapter of allChapters) {
+    if (!chapters.includes(chapter)) rmSync(chapter.path, { force: true });
+  }
+  rmSync(fullFile, { force: true });
+
+  return chapters.map((chapter) => {
+    const ext = getExtension(chapter.path);
+    return {
+      name: limitFilename(`${String(chapter.index).padStart(2, '0')} - ${chapter.title}`, ext),
+      path: chapter.path,
+      contentType: getContentType(ext),
+      kind: 'chapter' as const,
+    };
+  });
+}
+
+/**
+ * Subtitle files written next to the media, as `<base>.<language>.<ext>`.
+ * Embedded tracks are removed by yt-dlp once they are in the container.
+ */
+function findSubtitleFiles(session: IDownloadSession, tempBaseName: string): IOutputFile[] {
+  return listDownloadArtifacts(tempBaseName)
+    .filter(isSubtitleFile)
+    .map((file) => {
+      const language = getSubtitleLanguage(file) || 'und';
+      const ext = getExtension(file);
+      return {
+        name: getDownloadFilename(session, `${language}.${ext}`),
+        path: file,
+        contentType: getContentType(ext),
+        kind: 'subtitle' as const,
+        language,
+      };
+    });
+}
+
+async function failSession(sessionId: string, errorMsg: string) {
+  const result = await DownloadSession.updateOne(
+    { sessionId, status: 'downloading' },
+    {
+      status: 'error',
+      error: errorMsg
+    }
+  );
+  if (result.modifiedCount > 0) {
+    publishDownloadEvent(sessionId, 'failed', { status: 'error', error: errorMsg });
+    console.log('Download failed:', errorMsg);
+  }
+  // Sessions sharing the job fail with it
+  await failAttachedSessions(sessionId, errorMsg);
+}
+
+/**
+ * Run yt-dlp for a session that has already been moved to `downloading`.
+ * Resolves once the process has exited and the session reflects the outcome.
+ */
+export async function runDownloadJob(session: IDownloadSession): Promise<void> {
+  const { sessionId } = session;
+  const tempFile = session.tempFile!;
+  const tempBaseName = getDownloadBaseName(tempFile)!;
+
+  // Latest telemetry from yt-dlp; written to MongoDB at most once per second
+  let latestProgress: DownloadProgress = {};
+  let lastWrite = 0;
+  let pendingWrite: NodeJS.Timeout | null = null;
+  // Sessions sharing this job through the cache, refreshed with every write
+  let attachedIds: string[] = [];
+  // Live recordings: when the stream started arriving, and whether it was told to stop
+  let recordingStartedAt: number | null = null;
+  let stopping = false;
+
+  const flushProgress = async () => {
+    pendingWrite = null;
+    lastWrite = Date.now();
+    try {
+      await DownloadSession.updateMany(
+        { $or: [{ sessionId }, { sourceSessionId: sessionId }], status: 'downloading' },
+        latestProgress
+      );
+      attachedIds = await listAttachedSessionIds(sessionId);
+    } catch (error) {
+      console.error('Error updating progress:', error);
+    }
+  };
+
+  // A live stream has no total; report its length and size instead, and
+  // progress towards the recording limit when there is one
+  const toRecordingProgress = (update: DownloadProgress): DownloadProgress => {
+    const now = Date.now();
+    if (recordingStartedAt === null) recordingStartedAt = now;
+    const deadline = getRecordingDeadline(session, recordingStartedAt);
+    return {
+      phase: 'recording',
+      progress: deadline ? Math.min(((now - recordingStartedAt) / (deadline - recordingStartedAt)) * 100, 100) : 0,
+      downloadedBytes: update.downloadedBytes ?? latestProgress.downloadedBytes,
+      recordedSeconds: update.recordedSeconds ?? (now - recordingStartedAt) / 1000,
+      speed: update.speed,
+    };
+  };
+
+  const handleProgress = (rawUpdate: DownloadProgress) => {
+    const update = session.liveRecording && rawUpdate.phase !== 'merging' && rawUpdate.phase !== 'post_processing'
+      ? toRecordingProgress(rawUpdate)
+      : rawUpdate;
+    const phaseChanged = update.phase !== undefined && update.phase !== latestProgress.phase;
+    latestProgress = { ...latestProgress, ...update };
+
+    // Merging and post-processing have no byte counters of their own
+    if (update.phase === 'merging' || update.phase === 'post_processing') {
+      latestProgress = { phase: update.phase, progress: 100 };
+    }
+
+    for (const id of [sessionId, ...attachedIds]) {
+      publishDownloadEvent(id, 'progress', { status: 'downloading', ...latestProgress });
+      if (phaseChanged) {
+        publishDownloadEvent(id, 'phase', { phase: latestProgress.phase });
+      }
+    }
+
+    if (phaseChanged || Date.now() - lastWrite >= 1000) {
+      if (pendingWrite) clearTimeout(pendingWrite);
+      flushProgress();
+    } else if (!pendingWrite) {
+      pendingWrite = setTimeout(flushProgress, 1000 - (Date.now() - lastWrite));
+    }
+  };
+
+  const handleLine = (label: string) => (line: string) => {
+    const update = parseProgressLine(line);
+    if (update) {
+      handleProgress(update);
+    } else if (line.trim()) {
+      console.log(`yt-dlp ${label}:`, line.trim());
+    }
+  };
+
+  await startAttachedSessions(sessionId).catch((error) => {
+    console.error('Error starting attached sessions:', error);
+  });
+
+  const args = buildDownloadArgs(session);
+  console.log('Starting yt-dlp download:', args.join(' '), session.url);
+  console.log('Output file will be:', tempFile);
+
+  const download = startYtdlpDownload(session.url, args, {
+    timeoutMs: getJobTimeout(session),
+    onStdoutLine: handleLine('stdout'),
+    onStderrLine: handleLine('stderr'),
+  });
+  registerDownloadProcess(sessionId, download.process);
+
+  // Interrupting yt-dlp ends the recording cleanly; the Stop button may be
+  // pressed on another server, so the flag is read from MongoDB
+  const checkRecording = async () => {
+    if (stopping) return;
+    const deadline = getRecordingDeadline(session, recordingStartedAt);
+    let reason = deadline !== null && Date.now() >= deadline ? 'limit reached' : null;
+    if (!reason) {
+      try {
+        if (await DownloadSession.exists({ sessionId, stopRequested: true })) reason = 'stopped by user';
+      } catch (error) {
+        console.error('Error checking recording stop:', error);
+      }
+    }
+    if (reason && !stopping) {
+      stopping = true;
+      console.log(`Stopping recording ${sessionId}: ${reason}`);
+      download.process.stop();
+    }
+  };
+  const recordingTimer = session.liveRecording ? setInterval(checkRecording, RECORDING_CHECK_INTERVAL) : null;
+
+  try {
+    const { exitCode, signal } = await download.result;
+    console.log('yt-dlp process closed with code:', exitCode, signal ? `(signal ${signal})` : '');
+    if (recordingTimer) clearInterval(recordingTimer);
+
+    const subtitleFiles = findSubtitleFiles(session, tempBaseName);
+    if (session.subtitleLanguages?.length && session.subtitleMode !== 'embed') {
+      console.log('Subtitle files found:', subtitleFiles.map((file) => file.name));
+    }
+
+    // Without media, the first subtitle track is the main file
+    let outputFile = isSubtitlesOnly(session)
+      ? subtitleFiles[0]?.path || null
+      : findOutputFile(tempFile, tempBaseName);
+    console.log('Output file exists:', !!outputFile);
+    let missingOutputError = isSubtitlesOnly(session)
+      ? 'No subtitles were found for the selected languages'
+      : null;
+
+    // A stopped recording is a finished one, even if yt-dlp exited with an error
+    if (stopping) {
+      outputFile = outputFile || recoverStoppedRecording(tempBaseName);
+      missingOutputError = recordingStartedAt === null
+        ? 'The recording was stopped before the stream started'
+        : 'The recording could not be finalized';
+    }
+    // A null exit code means yt-dlp was killed (e.g. out of memory) and its
+    // output may be truncated; only a stop that was asked for is kept anyway
+    const succeeded = exitCode === 0 || stopping;
+
+    let chapterFiles: IOutputFile[] = [];
+    if (outputFile && session.chapterMode && !isSubtitlesOnly(session) && succeeded) {
+      handleProgress({ phase: 'post_processing' });
+      chapterFiles = collectChapterFiles(session, tempBaseName, outputFile);
+      outputFile = chapterFiles[0]?.path || null;
+      missingOutputError = 'No chapter files were produced';
+    }
+
+    const fileSize = outputFile ? statSync(outputFile).size : undefined;
+    if (fileSize !== undefined) {
+      console.log(
+        'Output file size:', fileSize, 'bytes',
+        `(estimated ${session.estimatedSize ?? 'unknown'}${session.estimatedSizeExact ? ', exact' : ''})`
+      );
+    }
+    const ext = outputFile ? getExtension(outputFile) : '';
+
+    if (succeeded && outputFile) {
+      const outputFiles = [...subtitleFiles, ...chapterFiles, ...finishMetadataFiles(session, tempBaseName)];
+
+      // Checksums for zip bundles, computed while the files are still in the page cache
+      const fileCrc32 = await crc32File(outputFile);
+      for (const file of outputFiles) {
+        file.crc32 = file.path === outputFile ? fileCrc32 : await crc32File(file.path);
+      }
+
+      const completion: CompletionFields = {
+        status: 'completed',
+        progress: 100,
+        tempFile: outputFile,
+        fileSize,
+        fileCrc32,
+        // Describe the file that was actually produced
+        contentType: getContentType(ext),
+        filename: outputFiles.find((file) => file.path === outputFile)?.name || getDownloadFilename(session, ext),
+        outputFiles,
+        fileExpiresAt: new Date(Date.now() + getFileRetentionMs()),
+        $unset: { speed: 1, eta: 1 },
+      };
+
+      // Update session with actual file path; a cancelled session stays cancelled
+      const completed = await DownloadSession.findOneAndUpdate(
+        { sessionId, status: 'downloading' },
+        { ...completion, downloadToken: createDownloadToken() },
+        { new: true }
+      );
+      if (completed) {
+        publishDownloadEvent(sessionId, 'completed', serializeProgress(completed));
+        console.log('Download completed successfully');
+        // The archive outlives the session; a failed write only costs a re-download later
+        await recordArchiveEntry(completed).catch((error) => {
+          console.error('Error recording archive entry:', error);
+        });
+      }
+
+      // Sessions that attached to this job get the same files
+      const shared = await completeAttachedSessions(session, completion);
+      if (completed || shared > 0) {
+        await cacheCompletedJob(session, completion);
+        return;
+      }
+    } else if (!outputFile && missingOutputError) {
+      await failSession(sessionId, missingOutputError);
+    } else {
+      const reason = exitCode === null ? `was killed by ${signal || 'a signal'}` : `failed with code ${exitCode}`;
+      await failSession(sessionId, `Download ${reason}${outputFile ? '' : ' (no output file)'}`);
+    }
+  } catch (error: any) {
+    if (error instanceof YtdlpError && error.code === 'TIMEOUT') {
+      console.log('Download timeout reached, yt-dlp process was killed');
+      await failSession(sessionId, 'Download timed out');
+    } else if (!(error instanceof YtdlpError && error.code === 'CANCELLED')) {
+      console.log('yt-dlp error:', error.message);
+      await failSession(sessionId, error.message);
+    }
+  } finally {
+    if (recordingTimer) clearInterval(recordingTimer);
+    // Drop any progress write that has not happened yet
+    if (pendingWrite) {
+      clearTimeout(pendingWrite);
+      pendingWrite = null;
+    }
+  }
+
+  // Clean up temp files of failed and cancelled downloads
+  removeDownloadArtifacts(tempBaseName);
+}
@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { randomBytes } from 'crypto';
+import { ByteRange, isIfRangeFresh, parseRangeHeader } from '@/lib/http-range';
+import { getContentDisposition } from '@/lib/filename';
+import { ZipEntry, buildZipLayout, readZipRange } from '@/lib/zip';
+
+export interface FileResponseOptions {
+  contentType: string;
+  filename: string;
+}
+
+// Create read stream with optimized chunk size for large files
+const STREAM_CHUNK_SIZE = 64 * 1024; // 64KB chunks to prevent memory issues
+
+function toWebStream(stream: Readable) {
+  return Readable.toWeb(stream) as any;
+}
+
+async function* multipartBody(filePath: string, ranges: ByteRange[], partHeaders: string[], trailer: string) {
+  for (let i = 0; i < ranges.length; i++) {
+    yield Buffer.from(partHeaders[i]);
+    yield* createReadStream(filePath, {
+      start: ranges[i].start,
+      end: ranges[i].end,
+      highWaterMark: STREAM_CHUNK_SIZE,
+    });
+  }
+  yield Buffer.from(trailer);
+}
+
+/**
+ * Serve a file from disk with HTTP range support: 200 for the whole file,
+ * 206 for one range, 206 multipart/byteranges for several and 416 when no
+ * range can be satisfied. `If-Range` is validated against the ETag and
+ * Last-Modified date so a resumed download never mixes two versions.
+ */
+export async function createFileResponse(
+  request: NextRequest,
+  filePath: string,
+  options: FileResponseOptions
+): Promise<NextResponse> {
+  const stats = await stat(filePath);
+  const size = stats.size;
+  const etag = `"${size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+  const isHead = request.method === 'HEAD';
+
+  const baseHeaders: { [key: string]: string } = {
+    'Content-Disposition': getContentDisposition(options.filename),
+    'Cache-Control': 'no-cache',
+    'Accept-Ranges': 'bytes',
+    ETag: etag,
+    'Last-Modified': stats.mtime.toUTCString(),
+  };
+
+  const rangeHeader = isIfRangeFresh(request.headers.get('if-range'), etag, stats.mtime)
+    ? request.headers.get('range')
+    : null;
+  const ranges = parseRangeHeader(rangeHeader, size);
+
+  if (ranges === 'unsatisfiable') {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { ...baseHeaders, 'Content-Range': `bytes */${size}` },
+    });
+  }
+
+  if (!ranges) {
+    console.log(`Streaming file: ${options.filename} (${Math.round(size / (1024 * 1024))}MB)`);
+
+    const headers = {
+      ...baseHeaders,
+      'Content-Type': options.contentType,
+      'Content-Length': size.toString(),
+    };
+    if (isHead) {
+      return new NextResponse(null, { headers });
+    }
+
+    const fileStream = createReadStream(filePath, { highWaterMark: STREAM_CHUNK_SIZE });
+    fileStream.on('end', () => {
+      console.log(`File streaming completed: ${options.filename}`);
+    });
+    fileStream.on('error', (error) => {
+      console.error('File streaming error:', error);
+    });
+
+    return new NextResponse(toWebStream(fileStream), { headers });
+  }
+
+  if (ranges.length === 1) {
+    const [{ start, end }] = ranges;
+    const headers = {
+      ...baseHeaders,
+      'Content-Type': options.contentType,
+      'Content-Length': (end - start + 1).toString(),
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+    };
+    if (isHead) {
+      return new NextResponse(null, { status: 206, headers });
+    }
+
+    const fileStream = createReadStream(filePath, { start, end, highWaterMark: STREAM_CHUNK_SIZE });
+    fileStream.on('error', (error) => {
+      console.error('File range streaming error:', error);
+    });
+    return new NextResponse(toWebStream(fileStream), { status: 206, headers });
+  }
+
+  // Several ranges: multipart/byteranges with a precomputed length
+  const boundary = `byteranges-${randomBytes(12).toString('hex')}`;
+  const partHeaders = ranges.map(({ start, end }) =>
+    `\r\n--${boundary}\r\nContent-Type: ${options.contentType}\r\nContent-Range: bytes ${start}-${end}/${size}\r\n\r\n`
+  );
+  const trailer = `\r\n--${boundary}--\r\n`;
+  const contentLength = ranges.reduce(
+    (total, { start, end }, i) => total + Buffer.byteLength(partHeaders[i]) + (end - start + 1),
+    Buffer.byteLength(trailer)
+  );
+
+  const headers = {
+    ...baseHeaders,
+    'Content-Type': `multipart/byteranges; boundary=${boundary}`,
+    'Content-Length': contentLength.toString(),
+  };
+  if (isHead) {
+    return new NextResponse(null, { status: 206, headers });
+  }
+
+  const body = Readable.from(multipartBody(filePath, ranges, partHeaders, trailer));
+  body.on('error', (error) => {
+    console.error('File multipart streaming error:', error);
+  });
+  return new NextResponse(toWebStream(body), { status: 206, headers });
+}
+
+/**
+ * Stream a stored zip of `entries`, assembled on the fly. The layout is
+ * deterministic, so a single range can be served and resumed like a file;
+ * a request for several ranges gets the whole archive.
+ */
+export async function createZipResponse(
+  request: NextRequest,
+  entries: ZipEntry[],
+  filename: string
+): Promise<NextResponse> {
+  const layout = await buildZipLayout(entries);
+  const { size, etag, lastModified } = layout;
+  const isHead = request.method === 'HEAD';
+
+  const baseHeaders: { [key: string]: string } = {
+    'Content-Disposition': getContentDisposition(filename),
+    'Content-Type': 'application/zip',
+    'Cache-Control': 'no-cache',
+    'Accept-Ranges': 'bytes',
+    ETag: etag,
+    'Last-Modified': lastModified.toUTCString(),
+  };
+
+  // Only the ETag validates a resume: a bundle can change without its
+  // newest file date changing (e.g. an entry expires)
+  const ifRange = request.headers.get('if-range');
+  const rangeHeader = !ifRange || ifRange.trim() === etag ? request.headers.get('range') : null;
+  const ranges = parseRangeHeader(rangeHeader, size);
+
+  if (ranges === 'unsatisfiable') {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { ...baseHeaders, 'Content-Range': `bytes */${size}` },
+    });
+  }
+
+  const range = ranges && ranges.length === 1 ? ranges[0] : null;
+  const start = range ? range.start : 0;
+  const end = range ? range.end : size - 1;
+  const headers = {
+    ...baseHeaders,
+    'Content-Length': (end - start + 1).toString(),
+    ...(range && { 'Content-Range': `bytes ${start}-${end}/${size}` }),
+  };
+  const status = range ? 206 : 200;
+
+  if (isHead) {
+    return new NextResponse(null, { status, headers });
+  }
+
+  console.log(`Streaming bundle: ${filename} (${entries.length} files, ${Math.round(size / (1024 * 1024))}MB)${range ? ` from byte ${start}` : ''}`);
+
+  const body = Readable.from(readZipRange(layout, start, end), { objectMode: false });
+  body.on('error', (error) => {
+    console.error('Bundle streaming error:', error);
+  });
+  return new NextResponse(toWebStream(body), { status, headers });
+}
@@ -0,0 +1,71 @@
+import connectToDatabase from '@/lib/mongodb';
+import DownloadSession from '@/lib/models/DownloadSession';
+import { getDownloadBaseName, removeDownloadArtifacts } from '@/lib/download-files';
+import { evictCachedFiles, releaseCachedFile } from '@/lib/download-cache';
+
+const DEFAULT_RETENTION_MINUTES = 60;
+// Sessions themselves expire after 24 hours, so files can never outlive that
+const MAX_RETENTION_MINUTES = 23 * 60;
+
+const SWEEP_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * How long a completed file stays downloadable, from FILE_RETENTION_MINUTES.
+ */
+export function getFileRetentionMs(): number {
+  const configured = parseInt(process.env.FILE_RETENTION_MINUTES || '', 10);
+  const minutes = configured > 0 ? Math.min(configured, MAX_RETENTION_MINUTES) : DEFAULT_RETENTION_MINUTES;
+  return minutes * 60 * 1000;
+}
+
+/**
+ * Whether a completed session's file is gone or past its retention window,
+ * even if the sweeper has not removed it yet.
+ */
+export function isFileExpired(session: { tempFile?: string; fileExpiresAt?: Date }): boolean {
+  return !session.tempFile || (!!session.fileExpiresAt && session.fileExpiresAt <= new Date());
+}
+
+/**
+ * Delete completed files whose retention window has passed. The session is
+ * kept (so its status can still be read) but loses its file and token.
+ */
+export async function removeExpiredFiles() {
+  const expired = await DownloadSession.find({
+    status: 'completed',
+    tempFile: { $exists: true },
+    fileExpiresAt: { $lte: new Date() },
+  });
+
+  for (const session of expired) {
+    // Cached files are shared; the cache deletes them once unreferenced
+    const baseName = getDownloadBaseName(session.tempFile!);
+    if (baseName && !(await releaseCachedFile(session))) {
+      removeDownloadArtifacts(baseName);
+    }
+    await DownloadSession.updateOne(
+      { sessionId: session.sessionId },
+      { $unset: { tempFile: 1, downloadToken: 1 } }
+    );
+    console.log(`Removed expired download file for session ${session.sessionId}`);
+  }
+
+  return expired.length;
+}
+
+/**
+ * Start the periodic retention sweep once per process.
+ */
+export function startFileRetentionSweeper() {
+  if ((global as any).fileRetentionSweeper) return;
+
+  (global as any).fileRetentionSweeper = setInterval(async () => {
+    try {
+      await connectToDatabase();
+      await removeExpiredFiles();
+      await evictCachedFiles();
+    } catch (error) {
+      console.error('File retention sweep failed:', error);
+    }
+  }, SWEEP_INTERVAL);
+}
@@ -0,0 +1,100 @@
+const DEFAULT_FILENAME_TEMPLATE = '{uploader} - {title} [{id}].{ext}';
+
+// Most filesystems allow 255 bytes per name; leave room for browser suffixes like " (1)"
+const MAX_FILENAME_BYTES = 200;
+
+// Reserved device names on Windows, with or without an extension
+const WINDOWS_RESERVED = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+export interface FilenameFields {
+  title?: string;
+  uploader?: string;
+  id?: string;
+  extractor?: string;
+  quality?: string;
+  ext: string;
+}
+
+/**
+ * Template for downloaded filenames, from DOWNLOAD_FILENAME_TEMPLATE.
+ * Placeholders: {title}, {uploader}, {id}, {extractor}, {quality}, {ext}.
+ */
+export function getFilenameTemplate(): string {
+  return process.env.DOWNLOAD_FILENAME_TEMPLATE || DEFAULT_FILENAME_TEMPLATE;
+}
+
+/**
+ * Make a single path segment safe on Windows, macOS and Linux: no path
+ * separators, reserved characters or control characters, and no trailing
+ * dots or spaces.
+ */
+export function sanitizeFilename(name: string): string {
+  const cleaned = name
+    .normalize('NFC')
+    .replace(/[\u0000-\u001f\u007f]/g, '')
+    .replace(/[\/\\:*?"<>|]/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '')
+    .replace(/[. ]+$/, '');
+
+  if (!cleaned) return 'download';
+  return WINDOWS_RESERVED.test(cleaned) ? `_${cleaned}` : cleaned;
+}
+
+// Cut to a byte budget without splitting a character
+function truncateToBytes(value: string, maxBytes: number): string {
+  let result = '';
+  let bytes = 0;
+  for (const char of Array.from(value)) {
+    const size = Buffer.byteLength(char);
+    if (bytes + size > maxBytes) break;
+    result += char;
+    bytes += size;
+  }
+  return result;
+}
+
+/**
+ * Fill in the filename template, sanitize the result and keep it within the
+ * length limit. The extension always comes last so it is never truncated.
+ */
+export function renderFilename(fields: FilenameFields, template: string = getFilenameTemplate()): string {
+  const values: { [key: string]: string | undefined } = { ...fields };
+  const stem = template
+    .replace(/\.?\{ext\}$/, '')
+    .replace(/\{(\w+)\}/g, (_, key: string) => values[key] || '')
+    // Placeholders without a value leave empty brackets and dangling separators
+    .replace(/\[\s*\]|\(\s*\)/g, '')
+    .replace(/(\s+-)+\s+/g, ' - ')
+    .replace(/^[\s\-_.]+|[\s\-_.]+$/g, '');
+
+  return limitFilename(stem, fields.ext);
+}
+
+/**
+ * Sanitize a name and cut it to the length limit, keeping the extension
+ * whole.
+ */
+export function limitFilename(stem: string, ext: string): string {
+  const suffix = `.${ext}`;
+  const budget = MAX_FILENAME_BYTES - Buffer.byteLength(suffix);
+  return `${sanitizeFilename(truncateToBytes(sanitizeFilename(stem), budget))}${suffix}`;
+}
+
+/**
+ * `Content-Disposition: attachment` with an ASCII `filename` for old clients
+ * and the exact UTF-8 name in `filename*` (RFC 6266 / RFC 5987).
+ */
+export function getContentDisposition(filename: string): string {
+  const fallback = filename
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '_')
+    .replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
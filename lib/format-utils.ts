@@ -8,6 +8,11 @@ export function formatFileSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
+export function formatSpeed(bytesPerSecond: number): string {
+  if (!bytesPerSecond) return '0 Bytes/s';
+  return `${formatFileSize(bytesPerSecond)}/s`;
+}
+
 export function formatDuration(seconds: number): string {
   if (!seconds) return '0:00';
 
@@ -21,18 +26,88 @@ export function formatDuration(seconds: number): string {
   return `${minutes}:${secs.toString().padStart(2, '0')}`;
 }
 
-export function getQualityLabel(quality: string): string {
+export function getAudioFormatLabel(audioFormat: string, audioBitrate?: number): string {
+  const labels: { [key: string]: string } = {
+    'mp3': 'MP3',
+    'm4a': 'AAC (M4A)',
+    'opus': 'Opus',
+    'flac': 'FLAC (lossless)',
+    'wav': 'WAV (lossless)',
+    'original': 'Original (no re-encode)',
+  };
+  const label = labels[audioFormat] || audioFormat;
+  return audioBitrate ? `${label} ${audioBitrate}k` : label;
+}
+
+export function getQualityLabel(
+  quality: string,
+  audio?: { audioFormat?: string; audioBitrate?: number }
+): string {
+  if (quality === 'audio') {
+    return audio?.audioFormat
+      ? `Audio Only (${getAudioFormatLabel(audio.audioFormat, audio.audioBitrate)})`
+      : 'Audio Only';
+  }
+
   const labels: { [key: string]: string } = {
     '2160p': '4K (2160p)',
     '1440p': '2K (1440p)',
     '1080p': 'Full HD (1080p)',
     '720p': 'HD (720p)',
     '480p': 'SD (480p)',
-    'audio': 'Audio Only (MP3)',
+    'custom': 'Custom format',
   };
   return labels[quality] || quality;
 }
 
+export function formatOrdinal(n: number): string {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const v = n % 100;
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+}
+
+export interface FormatDescription {
+  formatId: string;
+  container: string;
+  vcodec: string | null;
+  acodec: string | null;
+  height: number | null;
+  fps: number | null;
+  hdr: boolean;
+  bitrate: number | null;
+  note: string | null;
+}
+
+export function getFormatLabel(format: FormatDescription): string {
+  const codec = (value: string) => value.split('.')[0];
+  const parts: string[] = [];
+
+  if (format.vcodec) {
+    const fps = format.fps && format.fps > 30 ? Math.round(format.fps) : '';
+    parts.push(format.height ? `${format.height}p${fps}` : format.note || format.formatId);
+    parts.push(format.container, codec(format.vcodec));
+    if (format.hdr) parts.push('HDR');
+    if (format.acodec) parts.push('with audio');
+  } else {
+    parts.push(format.bitrate ? `${Math.round(format.bitrate)} kbps` : format.note || format.formatId);
+    parts.push(format.container);
+    if (format.acodec) parts.push(codec(format.acodec));
+  }
+
+  return parts.join(' • ');
+}
+
+export function getPhaseLabel(phase?: string): string {
+  const labels: { [key: string]: string } = {
+    'downloading_video': 'Downloading video',
+    'downloading_audio': 'Downloading audio',
+    'recording': 'Recording live stream',
+    'merging': 'Merging streams',
+    'post_processing': 'Post-processing',
+  };
+  return (phase && labels[phase]) || 'Starting download';
+}
+
 export function validateUrl(url: string): boolean {
   try {
     new URL(url);
@@ -42,3 +117,106 @@ export function validateUrl(url: string): boolean {
     return false;
   }
 }
+
+/**
+ * Seconds in a timestamp: "90", "90.5", "1:30", "1:02:03" or YouTube's
+ * "1h2m3s" / "90s". Returns null when the value cannot be read.
+ */
+export function parseTimestamp(value: string | number): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+
+  const text = value.trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return parseFloat(text);
+  }
+
+  if (/^\d+(:\d{1,2}){1,2}(\.\d+)?$/.test(text)) {
+    return text.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+  }
+
+  const match = text.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s)?$/i);
+  if (match && (match[1] || match[2] || match[3])) {
+    return (
+      parseInt(match[1] || '0', 10) * 3600 +
+      parseInt(match[2] || '0', 10) * 60 +
+      parseFloat(match[3] || '0')
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Start time carried by a shared link, from `?t=` / `?start=` or `#t=`.
+ */
+export function getUrlStartTime(url: string): number | null {
+  try {
+    const parsed = new URL(url);
+    const hash = new URLSearchParams(parsed.hash.slice(1));
+    const value = parsed.searchParams.get('t') || parsed.searchParams.get('start') || hash.get('t');
+    return value ? parseTimestamp(value) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Share and tracking parameters that do not change which video a link points to
+const TRACKING_PARAMS = /^(si|feature|pp|utm_\w+|fbclid|igshid|ref|ref_src|s)$/i;
+
+/**
+ * Key under which two links to the same video compare equal: youtu.be,
+ * Shorts and watch URLs of one video share a key, and tracking parameters
+ * are ignored.
+ */
+export function getUrlKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.toLowerCase().replace(/^(www|m)\./, '');
+    const youtubeId =
+      host === 'youtu.be'
+        ? parsed.pathname.slice(1)
+        : host === 'youtube.com'
+        ? parsed.searchParams.get('v') || parsed.pathname.match(/^\/(?:shorts|live|embed)\/([\w-]+)/)?.[1]
+        : null;
+    if (youtubeId) return `youtube:${youtubeId}`;
+
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = new URLSearchParams(params).toString();
+    return `${host}${parsed.pathname.replace(/\/+$/, '')}${query ? `?${query}` : ''}`;
+  } catch {
+    return url.trim();
+  }
+}
+
+/**
+ * Split pasted text into one URL per line: valid links without duplicates,
+ * and the lines that are not supported links. Blank lines are skipped.
+ */
+export function parseUrlList(text: string): { urls: string[]; invalid: string[]; duplicates: number } {
+  const urls: string[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+  let duplicates = 0;
+
+  for (const line of text.split(/\r?\n/)) {
+    const url = line.trim();
+    if (!url) continue;
+    if (!validateUrl(url)) {
+      invalid.push(url);
+      continue;
+    }
+    const key = getUrlKey(url);
+    if (seen.has(key)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(key);
+    urls.push(url);
+  }
+
+  return { urls, invalid, duplicates };
+}
@@ -0,0 +1,90 @@
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+// More ranges than this is not a real client; serve the whole file instead
+const MAX_RANGES = 20;
+
+/**
+ * Parse a `Range: bytes=...` header against a representation of `size` bytes.
+ *
+ * Returns null when the header is absent, malformed or should be ignored
+ * (the full file is then served), 'unsatisfiable' when no range overlaps the
+ * file (416), or the satisfiable ranges in request order, with overlapping
+ * and adjacent ranges coalesced.
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange[] | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = header.trim().match(/^bytes\s*=\s*(.+)$/i);
+  if (!match) return null;
+
+  const specs = match[1].split(',').map((spec) => spec.trim()).filter(Boolean);
+  if (specs.length === 0 || specs.length > MAX_RANGES) return null;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = spec.match(/^(\d*)\s*-\s*(\d*)$/);
+    if (!parts || (parts[1] === '' && parts[2] === '')) return null;
+
+    if (parts[1] === '') {
+      // Suffix range: the last N bytes
+      const suffixLength = parseInt(parts[2], 10);
+      if (suffixLength === 0 || size === 0) continue;
+      ranges.push({ start: Math.max(size - suffixLength, 0), end: size - 1 });
+      continue;
+    }
+
+    const start = parseInt(parts[1], 10);
+    const end = parts[2] === '' ? Infinity : parseInt(parts[2], 10);
+    if (end < start) return null;
+    if (start >= size) continue;
+    ranges.push({ start, end: Math.min(end, size - 1) });
+  }
+
+  if (ranges.length === 0) return 'unsatisfiable';
+
+  return coalesceRanges(ranges);
+}
+
+function coalesceRanges(ranges: ByteRange[]): ByteRange[] {
+  const sorted = ranges
+    .map((range, index) => ({ ...range, index }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: (ByteRange & { index: number })[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+      last.index = Math.min(last.index, range.index);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  // Keep the order the client asked for
+  return merged
+    .sort((a, b) => a.index - b.index)
+    .map(({ start, end }) => ({ start, end }));
+}
+
+/**
+ * Whether an `If-Range` precondition still matches the current
+ * representation, i.e. whether the Range header may be honoured.
+ */
+export function isIfRangeFresh(ifRange: string | null, etag: string, lastModified: Date): boolean {
+  if (!ifRange) return true;
+
+  const value = ifRange.trim();
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    // Strong comparison: weak validators never match
+    return !value.startsWith('W/') && value === etag;
+  }
+
+  const date = Date.parse(value);
+  if (isNaN(date)) return false;
+  // HTTP dates have one-second resolution
+  return Math.floor(lastModified.getTime() / 1000) === Math.floor(date / 1000);
+}
@@ -0,0 +1,66 @@
+import type { YtdlpVideoInfo } from '@/lib/ytdlp';
+import { MAX_RECORDING_HOURS } from '@/lib/download-options';
+
+// Extractors whose streams yt-dlp can record with --live-from-start
+const FROM_START_EXTRACTORS = ['youtube'];
+
+/**
+ * yt-dlp's live status of a video. Older extractors only set `is_live`.
+ */
+export function getLiveStatus(info: YtdlpVideoInfo): string {
+  return info.live_status || (info.is_live ? 'is_live' : 'not_live');
+}
+
+/**
+ * Whether the video is a stream that is on air or about to start, and so
+ * can only be recorded rather than downloaded.
+ */
+export function isRecordableStream(info: YtdlpVideoInfo): boolean {
+  const status = getLiveStatus(info);
+  return status === 'is_live' || status === 'is_upcoming';
+}
+
+export function canRecordFromStart(info: YtdlpVideoInfo): boolean {
+  const extractor = (info.extractor_key || info.extractor || '').toLowerCase();
+  return FROM_START_EXTRACTORS.includes(extractor);
+}
+
+/**
+ * Client-facing live state of a video, or null for regular videos and
+ * streams that have ended.
+ */
+export function describeLiveStream(info: YtdlpVideoInfo) {
+  if (!isRecordableStream(info)) return null;
+
+  const status = getLiveStatus(info);
+  return {
+    status,
+    isLive: status === 'is_live',
+    isUpcoming: status === 'is_upcoming',
+    startsAt: info.release_timestamp ? new Date(info.release_timestamp * 1000) : null,
+    canRecordFromStart: canRecordFromStart(info),
+  };
+}
+
+/**
+ * Time (ms since epoch) at which a recording must stop: the requested
+ * duration after it started, the requested stop time, or the maximum
+ * length, whichever comes first. Only the stop time applies while waiting
+ * for an upcoming stream.
+ */
+export function getRecordingDeadline(
+  session: { recordDuration?: number; recordUntil?: Date },
+  recordingStartedAt: number | null
+): number | null {
+  const limits: number[] = [];
+  if (session.recordUntil) {
+    limits.push(new Date(session.recordUntil).getTime());
+  }
+  if (recordingStartedAt !== null) {
+    limits.push(recordingStartedAt + MAX_RECORDING_HOURS * 60 * 60 * 1000);
+    if (session.recordDuration) {
+      limits.push(recordingStartedAt + session.recordDuration * 1000);
+    }
+  }
+  return limits.length > 0 ? Math.min(...limits) : null;
+}
@@ -0,0 +1,38 @@
+// Content types for the file extensions yt-dlp can produce
+const CONTENT_TYPES: { [ext: string]: string } = {
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mkv: 'video/x-matroska',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  flv: 'video/x-flv',
+  '3gp': 'video/3gpp',
+  ts: 'video/mp2t',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  opus: 'audio/ogg',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ass: 'text/x-ssa',
+  ssa: 'text/x-ssa',
+  lrc: 'text/plain',
+  ttml: 'application/ttml+xml',
+  zip: 'application/zip',
+};
+
+export function getContentType(ext: string): string {
+  return CONTENT_TYPES[ext.toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Lower-case extension of a path without the dot, e.g. "mp4".
+ */
+export function getExtension(filePath: string): string {
+  const match = filePath.match(/\.([A-Za-z0-9]+)$/);
+  return match ? match[1].toLowerCase() : '';
+}
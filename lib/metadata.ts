@@ -0,0 +1,76 @@
+import { readFileSync, rmSync, writeFileSync } from 'fs';
+import type { YtdlpVideoInfo } from '@/lib/ytdlp';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// yt-dlp dates are YYYYMMDD; Kodi expects YYYY-MM-DD
+function formatUploadDate(uploadDate?: string): string | undefined {
+  const match = uploadDate?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+/**
+ * Kodi `<episodedetails>` document for a video, with the uploader as the show
+ * so a channel's downloads group together in the library.
+ */
+export function buildNfo(info: YtdlpVideoInfo): string {
+  const aired = formatUploadDate(info.upload_date);
+  const fields: [string, string | number | undefined][] = [
+    ['title', info.title],
+    ['showtitle', info.uploader || info.channel],
+    ['plot', info.description],
+    ['aired', aired],
+    ['premiered', aired],
+    ['year', aired?.slice(0, 4)],
+    ['runtime', info.duration ? Math.round(info.duration / 60) : undefined],
+    ['studio', info.extractor_key || info.extractor],
+    ['thumb', info.thumbnail],
+  ];
+
+  const lines = ['<?xml version="1.0" encoding="UTF-8" standalone="yes"?>', '<episodedetails>'];
+  for (const [tag, value] of fields) {
+    if (value !== undefined && value !== null && value !== '') {
+      lines.push(`  <${tag}>${escapeXml(String(value))}</${tag}>`);
+    }
+  }
+  if (info.id) {
+    const type = escapeXml((info.extractor_key || info.extractor || 'video').toLowerCase());
+    lines.push(`  <uniqueid type="${type}" default="true">${escapeXml(info.id)}</uniqueid>`);
+  }
+  for (const tag of (info.tags || []).slice(0, 20)) {
+    lines.push(`  <tag>${escapeXml(String(tag))}</tag>`);
+  }
+  lines.push('</episodedetails>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Turn the `.info.json` yt-dlp wrote into the requested sidecars: an `.nfo`
+ * next to it, and the JSON itself only when it was asked for.
+ */
+export function writeMetadataSidecars(
+  infoJsonPath: string,
+  nfoPath: string,
+  options: { writeInfoJson?: boolean; writeNfo?: boolean }
+) {
+  try {
+    if (options.writeNfo) {
+      const info = JSON.parse(readFileSync(infoJsonPath, 'utf8'));
+      writeFileSync(nfoPath, buildNfo(info));
+      console.log('Wrote NFO sidecar:', nfoPath);
+    }
+  } catch (error) {
+    console.error('Failed to write NFO sidecar:', error);
+  } finally {
+    if (!options.writeInfoJson) {
+      rmSync(infoJsonPath, { force: true });
+    }
+  }
+}
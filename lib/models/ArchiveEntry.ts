@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A video that has been downloaded; kept after its session expires
+export interface IArchiveEntry extends Document {
+  extractor: string;
+  videoId: string;
+  quality: string;
+  title?: string;
+  url?: string;
+  sessionId?: string;
+  downloadedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ArchiveEntrySchema = new Schema<IArchiveEntry>({
+  // Lowercase extractor key, as in yt-dlp's --download-archive lines
+  extractor: {
+    type: String,
+    required: true
+  },
+  videoId: {
+    type: String,
+    required: true
+  },
+  // Preset the video was downloaded with, refined by the exact formats or the
+  // audio format (see getArchiveQuality); 'any' for imported lines
+  quality: {
+    type: String,
+    required: true
+  },
+  title: {
+    type: String,
+    required: false
+  },
+  url: {
+    type: String,
+    required: false
+  },
+  // Session that produced the download; absent for imported lines
+  sessionId: {
+    type: String,
+    required: false
+  },
+  downloadedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+ArchiveEntrySchema.index({ extractor: 1, videoId: 1, quality: 1 }, { unique: true });
+ArchiveEntrySchema.index({ downloadedAt: -1 });
+
+export default mongoose.models.ArchiveEntry || mongoose.model<IArchiveEntry>('ArchiveEntry', ArchiveEntrySchema);
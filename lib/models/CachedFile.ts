@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import type { IOutputFile } from '@/lib/models/DownloadSession';
+
+// Output of one download job, shared by every session that asked for the same video and formats
+export interface ICachedFile extends Document {
+  cacheKey: string;
+  sessionId: string;
+  status: 'downloading' | 'ready';
+  tempFile?: string;
+  outputFiles?: IOutputFile[];
+  fileSize?: number;
+  fileCrc32?: number;
+  contentType?: string;
+  filename?: string;
+  refCount: number;
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CachedFileSchema = new Schema<ICachedFile>({
+  // Hash of the canonical video ID and the options that shape the output
+  cacheKey: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  // Session whose job produces the files; others attach to it
+  sessionId: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['downloading', 'ready'],
+    default: 'downloading'
+  },
+  // Copied from the producing session once the job completes
+  tempFile: {
+    type: String,
+    required: false
+  },
+  outputFiles: {
+    type: [{
+      _id: false,
+      name: { type: String, required: true },
+      path: { type: String, required: true },
+      contentType: { type: String, required: true },
+      kind: { type: String, enum: ['subtitle', 'metadata', 'chapter'], required: true },
+      language: { type: String, required: false },
+      crc32: { type: Number, required: false }
+    }],
+    default: undefined
+  },
+  fileSize: {
+    type: Number,
+    required: false
+  },
+  fileCrc32: {
+    type: Number,
+    required: false
+  },
+  contentType: {
+    type: String,
+    required: false
+  },
+  filename: {
+    type: String,
+    required: false
+  },
+  // Sessions waiting for or holding the files; they are only deleted at 0
+  refCount: {
+    type: Number,
+    default: 0
+  },
+  // Earliest time an unreferenced entry is evicted; pushed back by every hit
+  expiresAt: {
+    type: Date,
+    required: false
+  }
+}, {
+  timestamps: true
+});
+
+CachedFileSchema.index({ status: 1, refCount: 1, expiresAt: 1 });
+
+export default mongoose.models.CachedFile || mongoose.model<ICachedFile>('CachedFile', CachedFileSchema);
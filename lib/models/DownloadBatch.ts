@@ -0,0 +1,129 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { SESSION_TTL_MS } from '@/lib/models/DownloadSession';
+import type { DownloadOptions } from '@/lib/download-options';
+
+export interface IBatchEntry {
+  index: number;
+  url: string;
+  title?: string;
+  error?: string;
+}
+
+// A playlist or channel download; each entry is its own DownloadSession
+export interface IDownloadBatch extends Document {
+  batchId: string;
+  url: string;
+  title?: string;
+  uploader?: string;
+  playlistId?: string;
+  entryCount: number;
+  quality: string;
+  options: DownloadOptions;
+  skipArchived?: boolean;
+  pendingEntries: IBatchEntry[];
+  rejectedEntries: IBatchEntry[];
+  skippedCount: number;
+  leaseExpiresAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BatchEntrySchema = new Schema<IBatchEntry>({
+  // Position in the playlist
+  index: {
+    type: Number,
+    required: true
+  },
+  url: {
+    type: String,
+    required: true
+  },
+  title: {
+    type: String,
+    required: false
+  },
+  // Why the entry was not queued
+  error: {
+    type: String,
+    required: false
+  }
+}, { _id: false });
+
+const DownloadBatchSchema = new Schema<IDownloadBatch>({
+  batchId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  // Playlist or channel URL the entries were extracted from
+  url: {
+    type: String,
+    required: true
+  },
+  title: {
+    type: String,
+    required: false
+  },
+  uploader: {
+    type: String,
+    required: false
+  },
+  playlistId: {
+    type: String,
+    required: false
+  },
+  // Number of entries selected for download
+  entryCount: {
+    type: Number,
+    required: true
+  },
+  // Preset every entry is downloaded with
+  quality: {
+    type: String,
+    required: true
+  },
+  // Options every entry is queued with
+  options: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  skipArchived: {
+    type: Boolean,
+    default: false
+  },
+  // Selected entries still to be checked and queued, in playlist order
+  pendingEntries: {
+    type: [BatchEntrySchema],
+    default: []
+  },
+  // Entries that did not pass the download checks, with the reason
+  rejectedEntries: {
+    type: [BatchEntrySchema],
+    default: []
+  },
+  // Entries left out because they were already downloaded
+  skippedCount: {
+    type: Number,
+    default: 0
+  },
+  // Held by the server queueing pendingEntries; once it lapses another
+  // server takes over
+  leaseExpiresAt: {
+    type: Date,
+    required: false
+  },
+  // Removed by the TTL index at this time; kept in step with the child
+  // session that expires last, so the batch outlives its longest wait
+  expiresAt: {
+    type: Date,
+    default: () => new Date(Date.now() + SESSION_TTL_MS)
+  }
+}, {
+  timestamps: true
+});
+
+DownloadBatchSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.models.DownloadBatch || mongoose.model<IDownloadBatch>('DownloadBatch', DownloadBatchSchema);
@@ -1,15 +1,91 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import type { DownloadPhase } from '@/lib/download-progress';
+
+// A file produced next to the main download, e.g. a subtitle or .nfo sidecar
+export interface IOutputFile {
+  name: string;
+  path: string;
+  contentType: string;
+  kind: 'subtitle' | 'metadata' | 'chapter';
+  language?: string;
+  crc32?: number;
+}
+
+// Sessions are deleted this long after they were created, started or scheduled to start
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
 
 export interface IDownloadSession extends Document {
   sessionId: string;
   url: string;
+  // Set on the child sessions of a playlist or channel download
+  batchId?: string;
+  batchIndex?: number;
+  // Set when a subscription queued the download
+  subscriptionId?: string;
+  // Set when the output is shared through the download cache
+  cacheKey?: string;
+  // Running job this session follows instead of starting its own
+  sourceSessionId?: string;
+  // Video metadata used for the download filename
+  title?: string;
+  uploader?: string;
+  videoId?: string;
+  extractor?: string;
   quality: string;
-  status: 'downloading' | 'completed' | 'error';
+  formatId?: string;
+  audioOnlyFormat?: boolean;
+  container?: string;
+  codecPreference?: string;
+  avoidHdr?: boolean;
+  compatibilityMode?: boolean;
+  audioFormat?: string;
+  audioBitrate?: number;
+  clipStart?: number;
+  clipEnd?: number;
+  accurateCuts?: boolean;
+  subtitleLanguages?: string[];
+  subtitleMode?: 'sidecar' | 'embed' | 'only';
+  subtitleFormat?: 'srt' | 'vtt';
+  embedMetadata?: boolean;
+  embedChapters?: boolean;
+  embedThumbnail?: boolean;
+  writeInfoJson?: boolean;
+  writeNfo?: boolean;
+  chapterMode?: 'split' | 'select';
+  chapterIndexes?: number[];
+  liveRecording?: boolean;
+  liveFromStart?: boolean;
+  recordDuration?: number;
+  recordUntil?: Date;
+  stopRequested?: boolean;
+  status: 'scheduled' | 'queued' | 'downloading' | 'completed' | 'error' | 'cancelled';
+  scheduledFor?: Date;
+  queuePosition?: number;
+  queuedAt?: Date;
+  workerHost?: string;
+  leaseExpiresAt?: Date;
+  recoveryAttempts?: number;
   progress: number;
+  phase?: DownloadPhase;
+  downloadedBytes?: number;
+  totalBytes?: number;
+  speed?: number;
+  eta?: number;
+  fragmentIndex?: number;
+  fragmentCount?: number;
+  recordedSeconds?: number;
   error?: string;
   tempFile?: string;
   contentType: string;
   filename: string;
+  outputFiles?: IOutputFile[];
+  estimatedSize?: number;
+  estimatedSizeExact?: boolean;
+  fileSize?: number;
+  fileCrc32?: number;
+  downloadToken?: string;
+  fileExpiresAt?: Date;
+  expiresAt: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -25,14 +101,215 @@ const DownloadSessionSchema = new Schema<IDownloadSession>({
     type: String,
     required: true
   },
+  // Parent DownloadBatch and the entry's 1-based position in the playlist
+  batchId: {
+    type: String,
+    required: false,
+    index: true
+  },
+  batchIndex: {
+    type: Number,
+    required: false
+  },
+  // Subscription whose check found this upload
+  subscriptionId: {
+    type: String,
+    required: false,
+    index: true
+  },
+  // Key of the CachedFile entry this session holds a reference to
+  cacheKey: {
+    type: String,
+    required: false
+  },
+  // Producing session of a shared job; progress and the result are copied from it
+  sourceSessionId: {
+    type: String,
+    required: false,
+    index: true
+  },
+  // Filled in from the video info so filenames can be built without yt-dlp
+  title: {
+    type: String,
+    required: false
+  },
+  uploader: {
+    type: String,
+    required: false
+  },
+  videoId: {
+    type: String,
+    required: false
+  },
+  extractor: {
+    type: String,
+    required: false
+  },
   quality: {
     type: String,
     required: true
   },
+  // Exact yt-dlp format selection ("137+140"); quality is 'custom' when set
+  formatId: {
+    type: String,
+    required: false
+  },
+  // The selected formats hold no video stream, so there is nothing to remux
+  audioOnlyFormat: {
+    type: Boolean,
+    required: false
+  },
+  // Container that separate video and audio streams are merged into
+  container: {
+    type: String,
+    enum: ['mp4', 'mkv', 'webm'],
+    default: 'mp4'
+  },
+  // Video codec yt-dlp should prefer when a preset leaves it a choice
+  codecPreference: {
+    type: String,
+    enum: ['any', 'av1', 'vp9', 'h264'],
+    default: 'any'
+  },
+  avoidHdr: {
+    type: Boolean,
+    default: false
+  },
+  // Re-encode to H.264/AAC in MP4 for players that cannot handle VP9/AV1
+  compatibilityMode: {
+    type: Boolean,
+    default: false
+  },
+  // Output of audio-only downloads; 'original' keeps the source codec
+  audioFormat: {
+    type: String,
+    enum: ['mp3', 'm4a', 'opus', 'flac', 'wav', 'original'],
+    required: false
+  },
+  // Target bitrate in kbit/s for lossy audio formats
+  audioBitrate: {
+    type: Number,
+    required: false
+  },
+  // Section of the video to download, in seconds
+  clipStart: {
+    type: Number,
+    required: false
+  },
+  clipEnd: {
+    type: Number,
+    required: false
+  },
+  // Frame-accurate cuts (re-encoded) instead of keyframe cuts
+  accurateCuts: {
+    type: Boolean,
+    default: false
+  },
+  // Subtitle languages to fetch, and whether they are sidecar files, embedded
+  // streams or the only output
+  subtitleLanguages: {
+    type: [String],
+    default: undefined
+  },
+  subtitleMode: {
+    type: String,
+    enum: ['sidecar', 'embed', 'only'],
+    required: false
+  },
+  subtitleFormat: {
+    type: String,
+    enum: ['srt', 'vtt'],
+    required: false
+  },
+  // Tags, chapters and cover art embedded by yt-dlp's post-processors
+  embedMetadata: {
+    type: Boolean,
+    default: false
+  },
+  embedChapters: {
+    type: Boolean,
+    default: false
+  },
+  embedThumbnail: {
+    type: Boolean,
+    default: false
+  },
+  // Metadata sidecars served next to the file
+  writeInfoJson: {
+    type: Boolean,
+    default: false
+  },
+  writeNfo: {
+    type: Boolean,
+    default: false
+  },
+  // One file per chapter ('split') or only the chosen chapters ('select')
+  chapterMode: {
+    type: String,
+    enum: ['split', 'select'],
+    required: false
+  },
+  chapterIndexes: {
+    type: [Number],
+    default: undefined
+  },
+  // Record a live stream, from the live edge or from its start
+  liveRecording: {
+    type: Boolean,
+    required: false
+  },
+  liveFromStart: {
+    type: Boolean,
+    required: false
+  },
+  // Recording limits: seconds from the start of the recording, or a stop time
+  recordDuration: {
+    type: Number,
+    required: false
+  },
+  recordUntil: {
+    type: Date,
+    required: false
+  },
+  // Set by the Stop button; the worker running the recording finishes it
+  stopRequested: {
+    type: Boolean,
+    required: false
+  },
   status: {
     type: String,
-    enum: ['downloading', 'completed', 'error'],
-    default: 'downloading'
+    enum: ['scheduled', 'queued', 'downloading', 'completed', 'error', 'cancelled'],
+    default: 'queued'
+  },
+  // A 'scheduled' session is queued by the scheduler once this time is reached
+  scheduledFor: {
+    type: Date,
+    required: false
+  },
+  // 1-based place in the FIFO queue while status is 'queued'
+  queuePosition: {
+    type: Number,
+    required: false
+  },
+  queuedAt: {
+    type: Date,
+    default: Date.now
+  },
+  // Process running the job, as host:pid; informational, recovery goes by lease
+  workerHost: {
+    type: String,
+    required: false
+  },
+  // Renewed by the worker while the job runs; a lapsed lease means the job died.
+  // A due scheduled session holds one while it is being checked.
+  leaseExpiresAt: {
+    type: Date,
+    required: false
+  },
+  // Times the job was re-queued after a server restart interrupted it
+  recoveryAttempts: {
+    type: Number,
+    default: 0
   },
   progress: {
     type: Number,
@@ -40,10 +317,46 @@ const DownloadSessionSchema = new Schema<IDownloadSession>({
     min: 0,
     max: 100
   },
+  phase: {
+    type: String,
+    enum: ['downloading_video', 'downloading_audio', 'recording', 'merging', 'post_processing'],
+    required: false
+  },
+  // Raw telemetry reported by yt-dlp's progress template
+  downloadedBytes: {
+    type: Number,
+    required: false
+  },
+  totalBytes: {
+    type: Number,
+    required: false
+  },
+  speed: {
+    type: Number,
+    required: false
+  },
+  eta: {
+    type: Number,
+    required: false
+  },
+  fragmentIndex: {
+    type: Number,
+    required: false
+  },
+  fragmentCount: {
+    type: Number,
+    required: false
+  },
+  // Length of a live recording so far
+  recordedSeconds: {
+    type: Number,
+    required: false
+  },
   error: {
     type: String,
     required: false
   },
+  // yt-dlp output template until the job completes, then the produced file
   tempFile: {
     type: String,
     required: false
@@ -55,16 +368,65 @@ const DownloadSessionSchema = new Schema<IDownloadSession>({
   filename: {
     type: String,
     required: true
+  },
+  // Sidecar files served alongside the main file under the same token
+  outputFiles: {
+    type: [{
+      _id: false,
+      name: { type: String, required: true },
+      path: { type: String, required: true },
+      contentType: { type: String, required: true },
+      kind: { type: String, enum: ['subtitle', 'metadata', 'chapter'], required: true },
+      language: { type: String, required: false },
+      crc32: { type: Number, required: false }
+    }],
+    default: undefined
+  },
+  // Size predicted from format metadata before the download started
+  estimatedSize: {
+    type: Number,
+    required: false
+  },
+  estimatedSizeExact: {
+    type: Boolean,
+    required: false
+  },
+  // Actual size of the produced file, for comparison with the estimate
+  fileSize: {
+    type: Number,
+    required: false
+  },
+  // CRC-32 of the produced file, so bundles can be laid out without re-reading it
+  fileCrc32: {
+    type: Number,
+    required: false
+  },
+  // Unguessable token for the stable /api/files/<token> URL of a completed file
+  downloadToken: {
+    type: String,
+    required: false,
+    unique: true,
+    sparse: true
+  },
+  // The completed file is deleted after this time (FILE_RETENTION_MINUTES)
+  fileExpiresAt: {
+    type: Date,
+    required: false
+  },
+  // Removed by the TTL index at this time; pushed back when a job is scheduled or starts
+  expiresAt: {
+    type: Date,
+    default: () => new Date(Date.now() + SESSION_TTL_MS)
   }
 }, {
-  timestamps: true,
-  // Auto-delete old sessions after 24 hours
-  expires: 86400 // 24 hours in seconds
+  timestamps: true
 });
 
 // Index for efficient queries
 DownloadSessionSchema.index({ sessionId: 1 });
 DownloadSessionSchema.index({ status: 1 });
-DownloadSessionSchema.index({ createdAt: 1 }, { expireAfterSeconds: 86400 });
+DownloadSessionSchema.index({ status: 1, queuedAt: 1 });
+DownloadSessionSchema.index({ status: 1, scheduledFor: 1 });
+DownloadSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 
 export default mongoose.models.DownloadSession || mongoose.model<IDownloadSession>('DownloadSession', DownloadSessionSchema);
\ No newline at end of file
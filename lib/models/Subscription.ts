@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISubscriptionFilters {
+  titlePattern?: string;
+  minDuration?: number;
+  maxDuration?: number;
+  skipShorts: boolean;
+  skipLive: boolean;
+}
+
+// A channel or playlist whose new uploads are downloaded automatically
+export interface ISubscription extends Document {
+  subscriptionId: string;
+  url: string;
+  title?: string;
+  quality: string;
+  filters: ISubscriptionFilters;
+  checkIntervalMinutes: number;
+  enabled: boolean;
+  skipArchived: boolean;
+  seenVideoIds: string[];
+  lastCheckedAt?: Date;
+  nextCheckAt: Date;
+  lastError?: string;
+  downloadCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SubscriptionSchema = new Schema<ISubscription>({
+  subscriptionId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  // Channel or playlist URL polled with flat extraction
+  url: {
+    type: String,
+    required: true
+  },
+  title: {
+    type: String,
+    required: false
+  },
+  // Preset new uploads are downloaded with
+  quality: {
+    type: String,
+    required: true
+  },
+  // Uploads that do not match are marked as seen without being downloaded
+  filters: {
+    titlePattern: { type: String, required: false }, // case-insensitive regex
+    minDuration: { type: Number, required: false }, // seconds
+    maxDuration: { type: Number, required: false }, // seconds
+    skipShorts: { type: Boolean, default: false },
+    skipLive: { type: Boolean, default: false }
+  },
+  checkIntervalMinutes: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  // New uploads already in the download archive at this quality are not queued again
+  skipArchived: {
+    type: Boolean,
+    default: true
+  },
+  // IDs already downloaded or skipped, newest last; capped so it cannot grow forever
+  seenVideoIds: {
+    type: [String],
+    default: []
+  },
+  lastCheckedAt: {
+    type: Date,
+    required: false
+  },
+  // The scheduler claims a subscription by moving this forward
+  nextCheckAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastError: {
+    type: String,
+    required: false
+  },
+  downloadCount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+SubscriptionSchema.index({ enabled: 1, nextCheckAt: 1 });
+
+export default mongoose.models.Subscription || mongoose.model<ISubscription>('Subscription', SubscriptionSchema);
@@ -0,0 +1,98 @@
+import type { YtdlpPlaylistEntry, YtdlpPlaylistInfo } from '@/lib/ytdlp';
+
+export const DEFAULT_PLAYLIST_PAGE_SIZE = 50;
+export const MAX_PLAYLIST_PAGE_SIZE = 200;
+
+// Upper bound for one batch, so a huge channel cannot flood the queue
+export const MAX_BATCH_ENTRIES = 500;
+
+export interface PlaylistEntry {
+  // 1-based position in the playlist
+  index: number;
+  id: string;
+  url: string;
+  title: string;
+  duration: number | null;
+  thumbnail: string | null;
+  uploader: string | null;
+  extractor: string | null;
+  // 'is_live', 'is_upcoming', 'was_live', ... when the platform reports it
+  liveStatus: string | null;
+}
+
+function getEntryUrl(entry: YtdlpPlaylistEntry): string | null {
+  const url = entry.webpage_url || entry.url;
+  return url && /^https?:\/\//i.test(url) ? url : null;
+}
+
+// Channel pages list their tabs (Videos, Shorts, ...) as nested playlists
+function isNestedPlaylist(entry: YtdlpPlaylistEntry): boolean {
+  return entry._type === 'playlist' || /Tab$|Playlist$/.test(entry.ie_key || '');
+}
+
+/**
+ * Tabs of a channel page (Videos, Shorts, Live), which flat extraction lists
+ * instead of their videos.
+ */
+export function getNestedPlaylists(info: YtdlpPlaylistInfo): { url: string; title: string }[] {
+  return info.entries
+    .filter(isNestedPlaylist)
+    .map((entry) => ({ url: getEntryUrl(entry), title: entry.title || entry.id }))
+    .filter((tab): tab is { url: string; title: string } => !!tab.url);
+}
+
+/**
+ * Client-facing entries of one page of a flat-extracted playlist. `offset` is
+ * the number of entries before this page.
+ */
+export function describePlaylistEntries(info: YtdlpPlaylistInfo, offset: number): PlaylistEntry[] {
+  const entries: PlaylistEntry[] = [];
+  info.entries.forEach((entry, i) => {
+    const url = getEntryUrl(entry);
+    if (!url || isNestedPlaylist(entry)) return;
+
+    entries.push({
+      index: offset + i + 1,
+      id: entry.id,
+      url,
+      title: entry.title || entry.id,
+      duration: entry.duration ?? null,
+      // Flat entries carry a thumbnail list rather than a single URL
+      thumbnail: entry.thumbnail || entry.thumbnails?.[entry.thumbnails.length - 1]?.url || null,
+      uploader: entry.uploader || entry.channel || info.uploader || info.channel || null,
+      extractor: entry.ie_key || null,
+      liveStatus: entry.live_status || null,
+    });
+  });
+  return entries;
+}
+
+/**
+ * Parse the 1-based page and page size of a playlist request.
+ */
+export function getPlaylistPage(body: any): { page: number; pageSize: number } {
+  const page = Math.max(parseInt(body.page, 10) || 1, 1);
+  const pageSize = Math.min(
+    Math.max(parseInt(body.pageSize, 10) || DEFAULT_PLAYLIST_PAGE_SIZE, 1),
+    MAX_PLAYLIST_PAGE_SIZE
+  );
+  return { page, pageSize };
+}
+
+/**
+ * Parse the playlist positions chosen for a batch download. Undefined means
+ * every entry (up to MAX_BATCH_ENTRIES).
+ */
+export function parseEntryIndexes(value: unknown): { indexes?: number[] } | { error: string } {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    !value.every((index) => Number.isInteger(index) && index >= 1 && index <= MAX_BATCH_ENTRIES)
+  ) {
+    return { error: `entryIndexes must be a non-empty list of positions from 1 to ${MAX_BATCH_ENTRIES}` };
+  }
+  return { indexes: Array.from(new Set(value as number[])).sort((a, b) => a - b) };
+}
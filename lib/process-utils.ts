@@ -0,0 +1,74 @@
+import { ChildProcess, spawn } from 'child_process';
+
+/**
+ * Spawn options that put the child in its own process group on POSIX,
+ * so killProcessTree can take down ffmpeg and any other grandchildren too.
+ * Such a child no longer dies with the server; pass it to trackProcessTree.
+ */
+export function treeKillableSpawnOptions() {
+  return { detached: process.platform !== 'win32' };
+}
+
+/**
+ * Kill a child process together with everything it spawned.
+ */
+export function killProcessTree(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM') {
+  if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) {
+    return;
+  }
+
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' });
+    } else {
+      // Negative pid targets the whole process group
+      process.kill(-child.pid, signal);
+    }
+  } catch (error) {
+    console.error('Failed to kill process tree, killing child only:', error);
+    child.kill(signal);
+  }
+}
+
+function getTrackedProcesses(): Set<ChildProcess> {
+  if (!(global as any).trackedProcessTrees) {
+    (global as any).trackedProcessTrees = new Set<ChildProcess>();
+  }
+  return (global as any).trackedProcessTrees;
+}
+
+/**
+ * Kill the child's process tree when the server shuts down, until it exits.
+ * Otherwise a restarted server could start a second yt-dlp writing the same
+ * partial files.
+ */
+export function trackProcessTree(child: ChildProcess) {
+  const tracked = getTrackedProcesses();
+  tracked.add(child);
+  child.once('exit', () => tracked.delete(child));
+}
+
+/**
+ * Kill tracked process trees on SIGTERM, SIGINT and exit. Installed once per
+ * process; a signal nobody else handles is re-raised so the server still
+ * stops. SIGKILL cannot be caught, so a killed server leaves them running.
+ */
+export function killProcessTreesOnShutdown() {
+  if ((global as any).processTreeCleanupInstalled) return;
+  (global as any).processTreeCleanupInstalled = true;
+
+  const killAll = () => {
+    getTrackedProcesses().forEach((child) => killProcessTree(child));
+  };
+
+  process.once('exit', killAll);
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, () => {
+      console.log(`Received ${signal}, stopping ${getTrackedProcesses().size} download process(es)`);
+      killAll();
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  }
+}
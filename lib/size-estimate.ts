@@ -0,0 +1,167 @@
+import type { YtdlpFormat, YtdlpVideoInfo } from '@/lib/ytdlp';
+
+export interface SizeEstimate {
+  bytes: number;
+  // True only when every stream reported an exact `filesize`
+  exact: boolean;
+}
+
+// Last resort when the extractor reports no usable format metadata (bits/s)
+const FALLBACK_BITRATES: { [quality: string]: number } = {
+  '2160p': 2000000,
+  '1440p': 1200000,
+  '1080p': 800000,
+  '720p': 500000,
+  '480p': 300000,
+  'audio': 128000,
+};
+
+// Uncompressed PCM (48 kHz, 16-bit stereo) and a typical FLAC ratio of it
+const LOSSLESS_BITRATES: { [format: string]: number } = {
+  wav: 1536000,
+  flac: 900000,
+};
+
+/**
+ * Output bitrate (bits/s) of re-encoded audio when it does not depend on the
+ * source: lossless formats, or a lossy format with an explicit bitrate.
+ */
+export function getTargetAudioBitrate(audioFormat: string, audioBitrate?: number): number | null {
+  if (audioFormat === 'original') return null;
+  return LOSSLESS_BITRATES[audioFormat] || (audioBitrate ? audioBitrate * 1000 : null);
+}
+
+function hasVideo(format: YtdlpFormat): boolean {
+  return !!format.vcodec && format.vcodec !== 'none';
+}
+
+function hasAudio(format: YtdlpFormat): boolean {
+  return !!format.acodec && format.acodec !== 'none';
+}
+
+/**
+ * Size of one stream: exact `filesize`, else `filesize_approx`, else the
+ * total bitrate (kbit/s) times the duration.
+ */
+export function estimateFormatSize(format: YtdlpFormat, duration: number): SizeEstimate | null {
+  if (format.filesize) {
+    return { bytes: format.filesize, exact: true };
+  }
+  if (format.filesize_approx) {
+    return { bytes: format.filesize_approx, exact: false };
+  }
+  const bitrate = format.tbr || (format.vbr || 0) + (format.abr || 0);
+  if (bitrate && duration) {
+    return { bytes: Math.round((bitrate * 1000 * duration) / 8), exact: false };
+  }
+  return null;
+}
+
+function byQualityDesc(a: YtdlpFormat, b: YtdlpFormat): number {
+  return (b.height || 0) - (a.height || 0) || (b.tbr || 0) - (a.tbr || 0);
+}
+
+function byAudioBitrateDesc(a: YtdlpFormat, b: YtdlpFormat): number {
+  return (b.abr || b.tbr || 0) - (a.abr || a.tbr || 0);
+}
+
+/**
+ * The streams a quality preset resolves to, mirroring the selector from
+ * getFormatSelector: best video-only stream up to the height plus best
+ * audio-only stream, or else the best pre-muxed format.
+ */
+export function resolvePresetFormats(info: YtdlpVideoInfo, quality: string): YtdlpFormat[] {
+  const formats = info.formats || [];
+  const audioOnly = formats.filter((f) => hasAudio(f) && !hasVideo(f)).sort(byAudioBitrateDesc);
+
+  if (quality === 'audio') {
+    if (audioOnly.length > 0) return [audioOnly[0]];
+    const muxed = formats.filter((f) => hasAudio(f) && hasVideo(f)).sort(byAudioBitrateDesc);
+    return muxed.slice(0, 1);
+  }
+
+  const maxHeight = parseInt(quality, 10) || Infinity;
+  const fits = (f: YtdlpFormat) => !!f.height && f.height <= maxHeight;
+
+  const videoOnly = formats.filter((f) => hasVideo(f) && !hasAudio(f) && fits(f)).sort(byQualityDesc);
+  if (videoOnly.length > 0 && audioOnly.length > 0) {
+    return [videoOnly[0], audioOnly[0]];
+  }
+
+  const muxed = formats.filter((f) => hasVideo(f) && hasAudio(f) && fits(f)).sort(byQualityDesc);
+  return muxed.slice(0, 1);
+}
+
+function sumEstimates(formats: YtdlpFormat[], duration: number): SizeEstimate | null {
+  if (formats.length === 0) return null;
+
+  let bytes = 0;
+  let exact = true;
+  for (const format of formats) {
+    const estimate = estimateFormatSize(format, duration);
+    if (!estimate) return null;
+    bytes += estimate.bytes;
+    exact = exact && estimate.exact;
+  }
+  return { bytes, exact };
+}
+
+/**
+ * Expected size of a download, from the formats it will actually fetch.
+ * Anything re-encoded afterwards can only be approximate; audio follows the
+ * target bitrate, or the PCM rate for lossless formats.
+ */
+export function estimateDownloadSize(
+  info: YtdlpVideoInfo,
+  selection: {
+    quality: string;
+    formatId?: string;
+    audioFormat?: string;
+    audioBitrate?: number;
+    compatibilityMode?: boolean;
+    clipStart?: number;
+    clipEnd?: number;
+  }
+): SizeEstimate {
+  const duration = info.duration || 0;
+  const audioFormat = selection.audioFormat || 'mp3';
+  const audioReencoded = selection.quality === 'audio' && audioFormat !== 'original';
+  // Re-encoded video lands near the source size but is never exact
+  const reencoded = audioReencoded || (selection.quality !== 'audio' && !!selection.compatibilityMode);
+
+  if (audioReencoded && duration) {
+    const bitrate = getTargetAudioBitrate(audioFormat, selection.audioBitrate);
+    if (bitrate) {
+      const estimate = { bytes: Math.round((duration * bitrate) / 8), exact: false };
+      return clipEstimate(estimate, duration, selection.clipStart, selection.clipEnd);
+    }
+  }
+
+  let formats: YtdlpFormat[];
+  if (selection.formatId) {
+    const ids = selection.formatId.split('+');
+    formats = (info.formats || []).filter((f) => ids.includes(f.format_id));
+  } else {
+    formats = resolvePresetFormats(info, selection.quality);
+  }
+
+  const estimate = sumEstimates(formats, duration) || {
+    bytes: Math.round((duration * (FALLBACK_BITRATES[selection.quality] || FALLBACK_BITRATES['1080p'])) / 8),
+    exact: false,
+  };
+
+  const full = reencoded ? { ...estimate, exact: false } : estimate;
+  return clipEstimate(full, duration, selection.clipStart, selection.clipEnd);
+}
+
+/**
+ * Scale a whole-video estimate down to a clip, assuming a constant bitrate.
+ */
+function clipEstimate(estimate: SizeEstimate, duration: number, clipStart?: number, clipEnd?: number): SizeEstimate {
+  if ((clipStart === undefined && clipEnd === undefined) || !duration) {
+    return estimate;
+  }
+  const start = Math.min(clipStart || 0, duration);
+  const end = Math.min(clipEnd ?? duration, duration);
+  return { bytes: Math.round((estimate.bytes * Math.max(end - start, 0)) / duration), exact: false };
+}
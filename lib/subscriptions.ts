@@ -0,0 +1,392 @@
+import { randomUUID } from 'crypto';
+import { Script } from 'vm';
+import connectToDatabase from '@/lib/mongodb';
+import Subscription, { ISubscription, ISubscriptionFilters } from '@/lib/models/Subscription';
+import { DownloadOptions, QUALITY_PRESETS, parseDownloadOptions } from '@/lib/download-options';
+import { processDownloadQueue } from '@/lib/download-queue';
+import { enqueueDownload } from '@/lib/download-enqueue';
+import { PlaylistEntry, describePlaylistEntries, getNestedPlaylists } from '@/lib/playlists';
+import { fetchMediaInfo, isPlaylistInfo } from '@/lib/ytdlp';
+import { validateUrl } from '@/lib/format-utils';
+import { findArchivedKeys, getArchiveKey } from '@/lib/download-archive';
+
+export const DEFAULT_CHECK_INTERVAL_MINUTES = 60;
+// Platforms rate-limit aggressive polling
+export const MIN_CHECK_INTERVAL_MINUTES = 15;
+
+// Newest uploads looked at per check, per channel tab
+const CHECK_ENTRIES = 30;
+// Seen IDs kept per subscription; far more than a check can return
+const MAX_SEEN_IDS = 1000;
+const MAX_TITLE_PATTERN_LENGTH = 200;
+const TITLE_MATCH_TIMEOUT_MS = 50;
+const titleMatcher = new Script('pattern.test(title)');
+
+const SCHEDULER_INTERVAL = 60 * 1000; // 1 minute
+
+const SHORTS_TAB = /\/shorts\/?$/;
+const LIVE_TAB = /\/(streams|live)\/?$/;
+const LIVE_STATUSES = ['is_live', 'is_upcoming', 'was_live', 'post_live'];
+
+// A check that failed because of the subscribed URL rather than the platform
+export class SubscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubscriptionError';
+  }
+}
+
+export interface SubscriptionInput {
+  url?: string;
+  quality?: string;
+  filters?: ISubscriptionFilters;
+  checkIntervalMinutes?: number;
+  enabled?: boolean;
+  skipArchived?: boolean;
+}
+
+function parseDuration(value: unknown, name: string): number | undefined | { error: string } {
+  if (value === undefined || value === null || value === '') return undefined;
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    return { error: `${name} must be a number of seconds` };
+  }
+  return seconds;
+}
+
+/**
+ * Validate the fields of a create (`partial` false) or update request.
+ */
+export function parseSubscriptionInput(body: any, partial: boolean): { input: SubscriptionInput } | { error: string } {
+  const input: SubscriptionInput = {};
+
+  if (!partial || body.url !== undefined) {
+    if (typeof body.url !== 'string' || !validateUrl(body.url)) {
+      return { error: 'A supported channel or playlist URL is required' };
+    }
+    input.url = body.url;
+  }
+
+  if (!partial || body.quality !== undefined) {
+    const quality = body.quality ?? '1080p';
+    if (!QUALITY_PRESETS.includes(quality)) {
+      return { error: `Unsupported quality "${quality}"` };
+    }
+    input.quality = quality;
+  }
+
+  if (!partial || body.checkIntervalMinutes !== undefined) {
+    const interval = Number(body.checkIntervalMinutes ?? DEFAULT_CHECK_INTERVAL_MINUTES);
+    if (!Number.isInteger(interval) || interval < MIN_CHECK_INTERVAL_MINUTES) {
+      return { error: `Check interval must be at least ${MIN_CHECK_INTERVAL_MINUTES} minutes` };
+    }
+    input.checkIntervalMinutes = interval;
+  }
+
+  if (body.enabled !== undefined) {
+    input.enabled = body.enabled === true;
+  }
+
+  if (body.skipArchived !== undefined) {
+    input.skipArchived = body.skipArchived === true;
+  }
+
+  if (!partial || body.filters !== undefined) {
+    const filters = body.filters || {};
+
+    let titlePattern: string | undefined;
+    if (filters.titlePattern) {
+      titlePattern = String(filters.titlePattern);
+      if (titlePattern.length > MAX_TITLE_PATTERN_LENGTH) {
+        return { error: `Title pattern must be at most ${MAX_TITLE_PATTERN_LENGTH} characters` };
+      }
+      try {
+        new RegExp(titlePattern, 'i');
+      } catch {
+        return { error: 'Title pattern is not a valid regular expression' };
+      }
+    }
+
+    const minDuration = parseDuration(filters.minDuration, 'Minimum duration');
+    if (typeof minDuration === 'object') return minDuration;
+    const maxDuration = parseDuration(filters.maxDuration, 'Maximum duration');
+    if (typeof maxDuration === 'object') return maxDuration;
+    if (minDuration !== undefined && maxDuration !== undefined && minDuration > maxDuration) {
+      return { error: 'Minimum duration cannot be longer than the maximum duration' };
+    }
+
+    input.filters = {
+      titlePattern,
+      minDuration,
+      maxDuration,
+      skipShorts: filters.skipShorts === true,
+      skipLive: filters.skipLive === true,
+    };
+  }
+
+  return { input };
+}
+
+/**
+ * Case-insensitive regex match anywhere in the title. Patterns come from the
+ * API, so the match runs in a separate context under a time limit: a pattern
+ * that backtracks catastrophically is cut off and counts as no match.
+ */
+export function matchesTitlePattern(title: string, pattern: string): boolean {
+  try {
+    return titleMatcher.runInNewContext(
+      { pattern: new RegExp(pattern, 'i'), title },
+      { timeout: TITLE_MATCH_TIMEOUT_MS }
+    ) === true;
+  } catch (error: any) {
+    if (error.code !== 'ERR_SCRIPT_EXECUTION_TIMEOUT') throw error;
+    console.warn(`Title pattern /${pattern}/ timed out matching "${title}"`);
+    return false;
+  }
+}
+
+/**
+ * Why an upload does not match the subscription's filters, or null when it
+ * should be downloaded. Unknown durations pass the duration filters.
+ */
+export function getFilterMismatch(entry: PlaylistEntry, filters: ISubscriptionFilters): string | null {
+  if (filters.skipShorts && /\/shorts\//.test(entry.url)) {
+    return 'short';
+  }
+  if (filters.skipLive && entry.liveStatus && LIVE_STATUSES.includes(entry.liveStatus)) {
+    return 'live';
+  }
+  if (filters.titlePattern && !matchesTitlePattern(entry.title, filters.titlePattern)) {
+    return 'title';
+  }
+  if (entry.duration !== null) {
+    if (filters.minDuration !== undefined && filters.minDuration !== null && entry.duration < filters.minDuration) {
+      return 'too short';
+    }
+    if (filters.maxDuration !== undefined && filters.maxDuration !== null && entry.duration > filters.maxDuration) {
+      return 'too long';
+    }
+  }
+  return null;
+}
+
+/**
+ * Newest uploads of a channel or playlist. A channel page lists its tabs
+ * rather than videos, so each tab the filters allow is read as well.
+ */
+async function fetchLatestEntries(url: string, filters: ISubscriptionFilters) {
+  const range = { start: 1, end: CHECK_ENTRIES };
+  const info = await fetchMediaInfo(url, range);
+  if (!isPlaylistInfo(info)) {
+    throw new SubscriptionError('This URL is not a channel or playlist');
+  }
+
+  const entries = describePlaylistEntries(info, 0);
+  const tabs = getNestedPlaylists(info).filter(
+    (tab) => !(filters.skipShorts && SHORTS_TAB.test(tab.url)) && !(filters.skipLive && LIVE_TAB.test(tab.url))
+  );
+  for (const tab of tabs) {
+    const tabInfo = await fetchMediaInfo(tab.url, range);
+    if (isPlaylistInfo(tabInfo)) {
+      entries.push(...describePlaylistEntries(tabInfo, 0));
+    }
+  }
+
+  const seen = new Set<string>();
+  return {
+    title: info.title || info.uploader || info.channel,
+    entries: entries.filter((entry) => !seen.has(entry.id) && !!seen.add(entry.id)),
+  };
+}
+
+// Downloads of a subscription use the defaults at its quality preset
+function getSubscriptionOptions(subscription: ISubscription): DownloadOptions {
+  const parsed = parseDownloadOptions({ quality: subscription.quality });
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.options;
+}
+
+/**
+ * Queue the matching uploads, oldest first, through the same checks as a
+ * download requested by hand. Returns how many were queued and the IDs to
+ * look at again next time: streams still on air, and uploads whose info
+ * could not be read.
+ */
+async function queueUploads(subscription: ISubscription, entries: PlaylistEntry[]) {
+  const { subscriptionId } = subscription;
+  const options = getSubscriptionOptions(subscription);
+
+  let queued = 0;
+  const retry: string[] = [];
+  const queuedAt = Date.now();
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    try {
+      const outcome = await enqueueDownload(entry.url, { ...options }, {
+        fields: { subscriptionId, queuedAt: new Date(queuedAt + i) },
+      });
+      if (outcome.status === 'rejected') {
+        console.log(`Subscription ${subscriptionId}: skipping ${entry.id} (${outcome.error})`);
+        if (outcome.reason === 'live') retry.push(entry.id);
+      } else {
+        queued++;
+      }
+    } catch (error: any) {
+      console.error(`Subscription ${subscriptionId}: could not queue ${entry.id}:`, error.message);
+      retry.push(entry.id);
+    }
+  }
+  return { queued, retry };
+}
+
+/**
+ * Look for uploads that have not been seen before and queue those that
+ * match the filters. The first check only records what is already there, so
+ * subscribing does not download a channel's back catalogue.
+ */
+export async function checkSubscription(subscription: ISubscription) {
+  const { subscriptionId } = subscription;
+  const firstCheck = !subscription.lastCheckedAt;
+
+  try {
+    const { title, entries } = await fetchLatestEntries(subscription.url, subscription.filters);
+    const seen = new Set(subscription.seenVideoIds);
+    const unseen = entries.filter((entry) => !seen.has(entry.id));
+
+    let matching = firstCheck ? [] : unseen.filter((entry) => {
+      const mismatch = getFilterMismatch(entry, subscription.filters);
+      if (mismatch) console.log(`Subscription ${subscriptionId}: skipping ${entry.id} (${mismatch})`);
+      return !mismatch;
+    });
+
+    if (matching.length > 0 && subscription.skipArchived) {
+      const archived = await findArchivedKeys(
+        matching.map((entry) => ({ extractor: entry.extractor || '', videoId: entry.id })),
+        getSubscriptionOptions(subscription)
+      );
+      matching = matching.filter((entry) => {
+        const isArchived = !!entry.extractor && archived.has(getArchiveKey(entry.extractor, entry.id));
+        if (isArchived) console.log(`Subscription ${subscriptionId}: skipping ${entry.id} (already downloaded)`);
+        return !isArchived;
+      });
+    }
+
+    // Listed newest first; queue the oldest first
+    const { queued, retry } = matching.length > 0
+      ? await queueUploads(subscription, matching.reverse())
+      : { queued: 0, retry: [] as string[] };
+    const checked = unseen.filter((entry) => !retry.includes(entry.id));
+
+    await Subscription.updateOne(
+      { subscriptionId },
+      {
+        ...(title && !subscription.title && { title }),
+        lastCheckedAt: new Date(),
+        $unset: { lastError: 1 },
+        $inc: { downloadCount: queued },
+        $push: { seenVideoIds: { $each: checked.map((entry) => entry.id), $slice: -MAX_SEEN_IDS } },
+      }
+    );
+
+    console.log(
+      `Subscription ${subscriptionId} checked: ${unseen.length} new, ${queued} queued${firstCheck ? ' (first check)' : ''}`
+    );
+    if (queued > 0) {
+      await processDownloadQueue();
+    }
+    return { found: unseen.length, queued };
+  } catch (error: any) {
+    console.error(`Subscription ${subscriptionId} check failed:`, error.message);
+    // lastCheckedAt stays unset until a first check succeeds, so it still only seeds the seen IDs
+    await Subscription.updateOne({ subscriptionId }, { lastError: error.message });
+    throw error;
+  }
+}
+
+export async function createSubscription(
+  input: Required<Omit<SubscriptionInput, 'enabled' | 'skipArchived'>> & Pick<SubscriptionInput, 'enabled' | 'skipArchived'>
+) {
+  const subscription = await Subscription.create({
+    subscriptionId: randomUUID(),
+    ...input,
+    nextCheckAt: new Date(Date.now() + input.checkIntervalMinutes * 60 * 1000),
+  });
+  // Records the current uploads and confirms the URL is a channel or playlist
+  try {
+    await checkSubscription(subscription);
+  } catch (error) {
+    await Subscription.deleteOne({ subscriptionId: subscription.subscriptionId });
+    throw error;
+  }
+  return Subscription.findOne({ subscriptionId: subscription.subscriptionId });
+}
+
+// Claim one due subscription, atomically so two processes never check it twice
+function claimDueSubscription(): Promise<ISubscription | null> {
+  return Subscription.findOneAndUpdate(
+    { enabled: true, nextCheckAt: { $lte: new Date() } },
+    [{ $set: { nextCheckAt: { $add: ['$$NOW', { $multiply: ['$checkIntervalMinutes', 60 * 1000] }] } } }],
+    { sort: { nextCheckAt: 1 }, new: true }
+  );
+}
+
+export async function checkDueSubscriptions() {
+  let subscription: ISubscription | null;
+  while ((subscription = await claimDueSubscription())) {
+    try {
+      await checkSubscription(subscription);
+    } catch {
+      // Recorded as lastError; the next interval tries again
+    }
+  }
+}
+
+/**
+ * Start polling subscriptions once per process.
+ */
+export function startSubscriptionScheduler() {
+  if ((global as any).subscriptionScheduler) return;
+
+  let running = false;
+  (global as any).subscriptionScheduler = setInterval(async () => {
+    // A slow check must not overlap with the next tick
+    if (running) return;
+    running = true;
+    try {
+      await connectToDatabase();
+      await checkDueSubscriptions();
+    } catch (error) {
+      console.error('Subscription check failed:', error);
+    } finally {
+      running = false;
+    }
+  }, SCHEDULER_INTERVAL);
+}
+
+/**
+ * Shape returned to clients; the seen IDs are internal bookkeeping.
+ */
+export function serializeSubscription(subscription: ISubscription) {
+  return {
+    id: subscription.subscriptionId,
+    url: subscription.url,
+    title: subscription.title,
+    quality: subscription.quality,
+    filters: {
+      titlePattern: subscription.filters.titlePattern,
+      minDuration: subscription.filters.minDuration,
+      maxDuration: subscription.filters.maxDuration,
+      skipShorts: subscription.filters.skipShorts,
+      skipLive: subscription.filters.skipLive,
+    },
+    checkIntervalMinutes: subscription.checkIntervalMinutes,
+    enabled: subscription.enabled,
+    skipArchived: subscription.skipArchived,
+    seenCount: subscription.seenVideoIds.length,
+    downloadCount: subscription.downloadCount,
+    lastCheckedAt: subscription.lastCheckedAt,
+    nextCheckAt: subscription.nextCheckAt,
+    lastError: subscription.lastError,
+    createdAt: subscription.createdAt,
+  };
+}
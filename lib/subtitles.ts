@@ -0,0 +1,54 @@
+import { basename } from 'path';
+import type { YtdlpVideoInfo } from '@/lib/ytdlp';
+
+export interface SubtitleTrack {
+  language: string;
+  name: string;
+  // Generated by speech recognition or machine translation
+  automatic: boolean;
+  formats: string[];
+}
+
+// Extensions yt-dlp writes subtitle tracks with
+const SUBTITLE_EXTENSIONS = ['srt', 'vtt', 'ass', 'ssa', 'lrc', 'ttml', 'srv1', 'srv2', 'srv3', 'json3'];
+
+// Tracks that are not captions, e.g. YouTube's replayed live chat
+const IGNORED_TRACKS = ['live_chat'];
+
+/**
+ * Subtitle languages of a video, manual tracks first. A language that has a
+ * manual track is not listed again as automatic.
+ */
+export function listSubtitleTracks(info: YtdlpVideoInfo): SubtitleTrack[] {
+  const tracks: SubtitleTrack[] = [];
+  const collect = (source: YtdlpVideoInfo['subtitles'], automatic: boolean) => {
+    for (const [language, files] of Object.entries(source || {})) {
+      if (IGNORED_TRACKS.includes(language) || tracks.some((track) => track.language === language)) {
+        continue;
+      }
+      tracks.push({
+        language,
+        name: files.find((file) => file.name)?.name || language,
+        automatic,
+        formats: Array.from(new Set(files.map((file) => file.ext))),
+      });
+    }
+  };
+
+  collect(info.subtitles, false);
+  collect(info.automatic_captions, true);
+  return tracks;
+}
+
+export function isSubtitleFile(filePath: string): boolean {
+  const ext = filePath.split('.').pop()?.toLowerCase() || '';
+  return SUBTITLE_EXTENSIONS.includes(ext);
+}
+
+/**
+ * Language of a subtitle file written as `<base>.<language>.<ext>`.
+ */
+export function getSubtitleLanguage(filePath: string): string | null {
+  const parts = basename(filePath).split('.');
+  return parts.length >= 3 ? parts[parts.length - 2] : null;
+}
@@ -0,0 +1,34 @@
+import { hostname } from 'os';
+import DownloadSession from '@/lib/models/DownloadSession';
+
+// A running job renews its lease this often; once the lease lapses the job
+// counts as dead and any server may reclaim it
+export const LEASE_DURATION_MS = 2 * 60 * 1000; // 2 minutes
+export const LEASE_RENEW_INTERVAL = 30 * 1000;
+
+/**
+ * Label recorded on the sessions this process runs, for diagnostics only:
+ * recovery goes by leases, since several processes may share a host.
+ */
+export function getWorkerId(): string {
+  return `${hostname()}:${process.pid}`;
+}
+
+export function getLeaseExpiry(): Date {
+  return new Date(Date.now() + LEASE_DURATION_MS);
+}
+
+/**
+ * Extend the lease of the given running jobs and of the sessions attached
+ * to them.
+ */
+export async function renewLeases(jobIds: string[]) {
+  if (jobIds.length === 0) return;
+  await DownloadSession.updateMany(
+    {
+      status: 'downloading',
+      $or: [{ sessionId: { $in: jobIds } }, { sourceSessionId: { $in: jobIds } }],
+    },
+    { leaseExpiresAt: getLeaseExpiry() }
+  );
+}
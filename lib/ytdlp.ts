@@ -0,0 +1,434 @@
+import { ChildProcess, spawn } from 'child_process';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { killProcessTree, trackProcessTree, treeKillableSpawnOptions } from '@/lib/process-utils';
+
+// Get yt-dlp command - try system PATH first, then local exe for development
+export function getYtdlpCommand(): string {
+  // For development, check for a local executable first
+  if (process.env.NODE_ENV !== 'production') {
+    const localPathExe = join(process.cwd(), 'yt-dlp.exe');
+    if (existsSync(localPathExe)) {
+      console.log('Using local yt-dlp.exe');
+      return localPathExe;
+    }
+    const localPath = join(process.cwd(), 'yt-dlp');
+    if (existsSync(localPath)) {
+      console.log('Using local yt-dlp');
+      return localPath;
+    }
+  }
+  // For production or if local executable is not found, assume it's in the PATH
+  console.log('Using yt-dlp from PATH');
+  return 'yt-dlp';
+}
+
+/**
+ * Cookie arguments configured through YT_DLP_BROWSER / YT_DLP_USER_DATA_DIR.
+ */
+export function getCookieArgs(): string[] {
+  const args: string[] = [];
+  const browser = process.env.YT_DLP_BROWSER;
+  if (browser) {
+    args.push('--cookies-from-browser', browser);
+    const userDataDir = process.env.YT_DLP_USER_DATA_DIR;
+    if (userDataDir) {
+      args.push('--user-data-dir', userDataDir);
+    }
+  }
+  return args;
+}
+
+export type YtdlpErrorCode =
+  | 'NOT_INSTALLED'
+  | 'UNSUPPORTED_URL'
+  | 'UNAVAILABLE'
+  | 'UPCOMING'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'INVALID_OUTPUT'
+  | 'FAILED';
+
+// HTTP status and user-facing message for each error code
+const ERROR_RESPONSES: { [code in YtdlpErrorCode]: { status: number; message: string } } = {
+  NOT_INSTALLED: {
+    status: 500,
+    message: 'yt-dlp is not installed on the server. Please install it to use this feature.',
+  },
+  UNSUPPORTED_URL: { status: 400, message: 'This video platform is not supported' },
+  UNAVAILABLE: { status: 404, message: 'Video is unavailable or private' },
+  UPCOMING: { status: 409, message: 'This video has not been released yet' },
+  TIMEOUT: { status: 408, message: 'Request timed out. Please try again.' },
+  CANCELLED: { status: 409, message: 'The request was cancelled' },
+  INVALID_OUTPUT: { status: 502, message: 'yt-dlp returned output that could not be read' },
+  FAILED: { status: 500, message: 'yt-dlp failed to process the request' },
+};
+
+export class YtdlpError extends Error {
+  readonly code: YtdlpErrorCode;
+  readonly exitCode: number | null;
+  readonly stderr: string;
+
+  constructor(code: YtdlpErrorCode, message: string, details: { exitCode?: number | null; stderr?: string } = {}) {
+    super(message);
+    this.name = 'YtdlpError';
+    this.code = code;
+    this.exitCode = details.exitCode ?? null;
+    this.stderr = details.stderr ?? '';
+  }
+
+  get status(): number {
+    return ERROR_RESPONSES[this.code].status;
+  }
+}
+
+/**
+ * Classify a failed run from yt-dlp's stderr.
+ */
+function errorFromStderr(stderr: string, exitCode: number | null): YtdlpError {
+  const message = stderr.trim().split('\n').filter((line) => line.includes('ERROR')).pop()
+    || stderr.trim()
+    || `yt-dlp exited with code ${exitCode}`;
+
+  let code: YtdlpErrorCode = 'FAILED';
+  if (stderr.includes('Unsupported URL')) {
+    code = 'UNSUPPORTED_URL';
+  } else if (
+    stderr.includes('Video unavailable') ||
+    stderr.includes('Private video') ||
+    stderr.includes('This video is unavailable') ||
+    stderr.includes('HTTP Error 404')
+  ) {
+    code = 'UNAVAILABLE';
+  } else if (
+    stderr.includes('Premieres in') ||
+    stderr.includes('Premiere will begin') ||
+    stderr.includes('This live event will begin')
+  ) {
+    code = 'UPCOMING';
+  }
+
+  return new YtdlpError(code, message, { exitCode, stderr });
+}
+
+/**
+ * Map any error thrown while running yt-dlp to an HTTP status and a message
+ * that is safe to show to users.
+ */
+export function describeYtdlpError(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  if (error instanceof YtdlpError && error.code !== 'FAILED') {
+    return ERROR_RESPONSES[error.code];
+  }
+  return { status: 500, message: fallbackMessage };
+}
+
+export interface YtdlpRunOptions {
+  // Kill the process tree and reject with TIMEOUT after this many milliseconds
+  timeoutMs?: number;
+  // Line callbacks; stdout is only buffered when no stdout callback is given
+  onStdoutLine?: (line: string) => void;
+  onStderrLine?: (line: string) => void;
+}
+
+export interface YtdlpResult {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  stdout: string;
+  stderr: string;
+}
+
+export interface YtdlpProcess {
+  child: ChildProcess;
+  // Resolves when the process exits, whatever its exit code
+  result: Promise<YtdlpResult>;
+  // Stop the process tree; `result` then rejects with CANCELLED
+  kill: (signal?: NodeJS.Signals) => void;
+  // Interrupt yt-dlp as Ctrl+C would; `result` resolves as usual. A live
+  // recording then ends its ffmpeg cleanly and is still post-processed.
+  stop: () => void;
+}
+
+// Only the end of stderr is kept; long downloads print a lot
+const MAX_STDERR_LENGTH = 64 * 1024;
+
+/**
+ * Spawn yt-dlp with an argv array (never through a shell), so user-supplied
+ * URLs cannot inject commands. The process gets its own group so that
+ * timeouts and cancellation also stop ffmpeg.
+ */
+export function spawnYtdlp(args: string[], options: YtdlpRunOptions = {}): YtdlpProcess {
+  const command = getYtdlpCommand();
+  const child = spawn(command, args, {
+    ...treeKillableSpawnOptions(),
+    stdio: ['ignore', 'pipe', 'pipe'],
+    shell: false,
+  });
+  trackProcessTree(child);
+
+  let stopReason: 'timeout' | 'cancelled' | null = null;
+
+  const result = new Promise<YtdlpResult>((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    let settled = false;
+
+    const settle = (callback: () => void) => {
+      if (settled) return;
+      settled = true;
+      if (timer) clearTimeout(timer);
+      callback();
+    };
+
+    const timer = options.timeoutMs
+      ? setTimeout(() => {
+          stopReason = 'timeout';
+          killProcessTree(child);
+        }, options.timeoutMs)
+      : null;
+
+    // Output arrives in arbitrary chunks; callbacks only get complete lines.
+    // ffmpeg redraws its status line with bare carriage returns.
+    const createLineReader = (onLine: (line: string) => void) => {
+      let buffer = '';
+      return (data: Buffer) => {
+        buffer += data.toString();
+        const lines = buffer.split(/\r\n|\r|\n/);
+        buffer = lines.pop() || '';
+        lines.forEach(onLine);
+      };
+    };
+
+    child.stdout!.on(
+      'data',
+      options.onStdoutLine
+        ? createLineReader(options.onStdoutLine)
+        : (data: Buffer) => {
+            stdout += data.toString();
+          }
+    );
+
+    const stderrLines = options.onStderrLine ? createLineReader(options.onStderrLine) : null;
+    child.stderr!.on('data', (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-MAX_STDERR_LENGTH);
+      stderrLines?.(data);
+    });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      settle(() => {
+        if (error.code === 'ENOENT') {
+          reject(new YtdlpError('NOT_INSTALLED', `yt-dlp not found (${command})`));
+        } else {
+          reject(new YtdlpError('FAILED', `Process error: ${error.message}`));
+        }
+      });
+    });
+
+    child.on('close', (exitCode, signal) => {
+      settle(() => {
+        if (stopReason === 'timeout') {
+          reject(new YtdlpError('TIMEOUT', 'yt-dlp timed out', { exitCode, stderr }));
+        } else if (stopReason === 'cancelled') {
+          reject(new YtdlpError('CANCELLED', 'yt-dlp was cancelled', { exitCode, stderr }));
+        } else {
+          resolve({ exitCode, signal, stdout, stderr });
+        }
+      });
+    });
+  });
+
+  return {
+    child,
+    result,
+    kill: (signal?: NodeJS.Signals) => {
+      stopReason = stopReason || 'cancelled';
+      killProcessTree(child, signal);
+    },
+    // yt-dlp alone: it tells its ffmpeg to quit, which then writes a complete file
+    stop: () => {
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill('SIGINT');
+      }
+    },
+  };
+}
+
+/**
+ * Run yt-dlp to completion and return its output, throwing a YtdlpError
+ * when it exits unsuccessfully.
+ */
+export async function runYtdlp(args: string[], options: YtdlpRunOptions = {}): Promise<YtdlpResult> {
+  const result = await spawnYtdlp(args, options).result;
+  if (result.exitCode !== 0) {
+    throw errorFromStderr(result.stderr, result.exitCode);
+  }
+  return result;
+}
+
+export interface YtdlpFormat {
+  format_id: string;
+  format_note?: string;
+  ext: string;
+  vcodec?: string;
+  acodec?: string;
+  width?: number | null;
+  height?: number | null;
+  fps?: number | null;
+  dynamic_range?: string | null;
+  tbr?: number | null;
+  vbr?: number | null;
+  abr?: number | null;
+  filesize?: number | null;
+  filesize_approx?: number | null;
+  protocol?: string;
+}
+
+export interface YtdlpSubtitle {
+  ext: string;
+  url?: string;
+  name?: string;
+}
+
+export interface YtdlpChapter {
+  start_time: number;
+  end_time: number;
+  title?: string;
+}
+
+export interface YtdlpVideoInfo {
+  id: string;
+  title?: string;
+  thumbnail?: string;
+  duration?: number;
+  uploader?: string;
+  description?: string;
+  filesize?: number | null;
+  extractor?: string;
+  extractor_key?: string;
+  webpage_url?: string;
+  formats?: YtdlpFormat[];
+  // Language code to the available files of that track
+  subtitles?: { [language: string]: YtdlpSubtitle[] };
+  automatic_captions?: { [language: string]: YtdlpSubtitle[] };
+  chapters?: YtdlpChapter[] | null;
+  // 'is_live', 'is_upcoming', 'was_live', 'post_live' or 'not_live'
+  live_status?: string | null;
+  is_live?: boolean | null;
+  // Scheduled start of an upcoming stream, in Unix seconds
+  release_timestamp?: number | null;
+  [key: string]: any;
+}
+
+// One entry of a flat-extracted playlist; only basic fields are present
+export interface YtdlpPlaylistEntry {
+  _type?: string;
+  ie_key?: string;
+  id: string;
+  url?: string;
+  webpage_url?: string;
+  title?: string;
+  duration?: number | null;
+  uploader?: string;
+  channel?: string;
+  thumbnail?: string;
+  thumbnails?: { url: string; width?: number; height?: number }[];
+  live_status?: string | null;
+}
+
+export interface YtdlpPlaylistInfo {
+  _type: 'playlist';
+  id: string;
+  title?: string;
+  uploader?: string;
+  channel?: string;
+  webpage_url?: string;
+  playlist_count?: number | null;
+  entries: YtdlpPlaylistEntry[];
+  [key: string]: any;
+}
+
+export interface YtdlpDownloadResult {
+  exitCode: number | null;
+  // Set instead of the exit code when the process was killed
+  signal: NodeJS.Signals | null;
+  stderr: string;
+}
+
+// Timeout for metadata requests
+const INFO_TIMEOUT = 30000; // 30 seconds
+
+/**
+ * Fetch the metadata of a single video (`--dump-json --no-playlist`).
+ */
+export async function fetchVideoInfo(url: string, extraArgs: string[] = []): Promise<YtdlpVideoInfo> {
+  const { stdout } = await runYtdlp(
+    ['--dump-json', '--no-playlist', ...getCookieArgs(), ...extraArgs, '--', url],
+    { timeoutMs: INFO_TIMEOUT }
+  );
+
+  try {
+    return JSON.parse(stdout);
+  } catch (error) {
+    console.error('Failed to parse video info JSON:', error);
+    throw new YtdlpError('INVALID_OUTPUT', 'Failed to parse video info');
+  }
+}
+
+/**
+ * Metadata of a URL that may be a single video or a playlist/channel.
+ * Playlists are extracted flat (entries are not resolved) and limited to
+ * entries `start`..`end` (1-based, inclusive). A URL naming both a video and
+ * a playlist is treated as the video.
+ */
+export async function fetchMediaInfo(
+  url: string,
+  range: { start: number; end: number }
+): Promise<YtdlpVideoInfo | YtdlpPlaylistInfo> {
+  const { stdout } = await runYtdlp(
+    [
+      '--dump-single-json',
+      '--flat-playlist',
+      '--no-playlist',
+      '--playlist-items', `${range.start}:${range.end}`,
+      ...getCookieArgs(),
+      '--',
+      url,
+    ],
+    // Large channels take a while to page through
+    { timeoutMs: INFO_TIMEOUT * 2 }
+  );
+
+  try {
+    return JSON.parse(stdout);
+  } catch (error) {
+    console.error('Failed to parse media info JSON:', error);
+    throw new YtdlpError('INVALID_OUTPUT', 'Failed to parse video info');
+  }
+}
+
+export function isPlaylistInfo(info: YtdlpVideoInfo | YtdlpPlaylistInfo): info is YtdlpPlaylistInfo {
+  return info._type === 'playlist';
+}
+
+/**
+ * Start a download. Unlike runYtdlp, a non-zero exit code is reported in the
+ * result instead of thrown, because yt-dlp may still have produced a file.
+ */
+export function startYtdlpDownload(
+  url: string,
+  args: string[],
+  options: YtdlpRunOptions
+): { process: YtdlpProcess; result: Promise<YtdlpDownloadResult> } {
+  const ytdlpProcess = spawnYtdlp([...args, ...getCookieArgs(), '--', url], options);
+  return {
+    process: ytdlpProcess,
+    result: ytdlpProcess.result.then(({ exitCode, signal, stderr }) => ({ exitCode, signal, stderr })),
+  };
+}
+
+/**
+ * Installed yt-dlp version, e.g. "2024.08.06".
+ */
+export async function getYtdlpVersion(): Promise<string> {
+  const { stdout } = await runYtdlp(['--version'], { timeoutMs: 10000 });
+  return stdout.trim();
+}
@@ -0,0 +1,274 @@
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { createHash } from 'crypto';
+
+export interface ZipEntry {
+  // Name inside the archive; may contain "/" for folders
+  name: string;
+  // Content comes from a file on disk or, for small generated files, memory
+  path?: string;
+  data?: Buffer;
+  // CRC-32 computed when the file was produced; read from disk when missing
+  crc32?: number;
+  mtime?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function updateCrc32(crc: number, data: Buffer): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+export async function crc32File(filePath: string): Promise<number> {
+  let crc = 0;
+  for await (const chunk of createReadStream(filePath, { highWaterMark: 64 * 1024 })) {
+    crc = updateCrc32(crc, chunk as Buffer);
+  }
+  return crc;
+}
+
+/**
+ * Global is used here so CRCs computed for one bundle request are reused by
+ * the next one (e.g. a resumed download) instead of re-reading every file.
+ */
+let crcCache: Map<string, number> = (global as any).zipCrcCache;
+
+if (!crcCache) {
+  crcCache = (global as any).zipCrcCache = new Map<string, number>();
+}
+
+/**
+ * CRC-32 of a file, cached by path, size and modification time.
+ */
+export async function getFileCrc32(filePath: string, size: number, mtime: Date): Promise<number> {
+  const key = `${filePath}:${size}:${mtime.getTime()}`;
+  let crc = crcCache.get(key);
+  if (crc === undefined) {
+    crc = await crc32File(filePath);
+    crcCache.set(key, crc);
+  }
+  return crc;
+}
+
+// MS-DOS date and time, as stored in zip headers
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+const UTF8_FLAG = 0x0800;
+
+// Sizes and offsets at or above this need zip64 records
+const ZIP64_LIMIT = 0xffffffff;
+const ZIP64_ENTRY_LIMIT = 0xffff;
+
+// A contiguous part of the archive: generated header bytes or file content
+interface ZipSegment {
+  start: number;
+  length: number;
+  data?: Buffer;
+  path?: string;
+}
+
+export interface ZipLayout {
+  size: number;
+  // Changes whenever an entry's name, content or date does
+  etag: string;
+  lastModified: Date;
+  segments: ZipSegment[];
+}
+
+function writeUInt64(buffer: Buffer, value: number, offset: number) {
+  buffer.writeBigUInt64LE(BigInt(value), offset);
+}
+
+function localHeader(name: Buffer, crc: number, size: number, time: number, date: number, zip64: boolean): Buffer {
+  const header = Buffer.alloc(30 + name.length + (zip64 ? 20 : 0));
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(zip64 ? 45 : 20, 4); // version needed
+  header.writeUInt16LE(UTF8_FLAG, 6);
+  header.writeUInt16LE(0, 8); // stored
+  header.writeUInt16LE(time, 10);
+  header.writeUInt16LE(date, 12);
+  header.writeUInt32LE(crc, 14);
+  header.writeUInt32LE(zip64 ? ZIP64_LIMIT : size, 18);
+  header.writeUInt32LE(zip64 ? ZIP64_LIMIT : size, 22);
+  header.writeUInt16LE(name.length, 26);
+  header.writeUInt16LE(zip64 ? 20 : 0, 28);
+  name.copy(header, 30);
+  if (zip64) {
+    const extra = 30 + name.length;
+    header.writeUInt16LE(0x0001, extra);
+    header.writeUInt16LE(16, extra + 2);
+    writeUInt64(header, size, extra + 4);
+    writeUInt64(header, size, extra + 12);
+  }
+  return header;
+}
+
+function centralHeader(
+  name: Buffer,
+  crc: number,
+  size: number,
+  time: number,
+  date: number,
+  offset: number,
+  zip64: boolean
+): Buffer {
+  const header = Buffer.alloc(46 + name.length + (zip64 ? 28 : 0));
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(zip64 ? 45 : 20, 4); // version made by
+  header.writeUInt16LE(zip64 ? 45 : 20, 6); // version needed
+  header.writeUInt16LE(UTF8_FLAG, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(time, 12);
+  header.writeUInt16LE(date, 14);
+  header.writeUInt32LE(crc, 16);
+  header.writeUInt32LE(zip64 ? ZIP64_LIMIT : size, 20);
+  header.writeUInt32LE(zip64 ? ZIP64_LIMIT : size, 24);
+  header.writeUInt16LE(name.length, 28);
+  header.writeUInt16LE(zip64 ? 28 : 0, 30);
+  header.writeUInt32LE(zip64 ? ZIP64_LIMIT : offset, 42);
+  name.copy(header, 46);
+  if (zip64) {
+    const extra = 46 + name.length;
+    header.writeUInt16LE(0x0001, extra);
+    header.writeUInt16LE(24, extra + 2);
+    writeUInt64(header, size, extra + 4);
+    writeUInt64(header, size, extra + 12);
+    writeUInt64(header, offset, extra + 20);
+  }
+  return header;
+}
+
+function endOfCentralDirectory(count: number, directorySize: number, directoryOffset: number): Buffer {
+  const zip64 = count >= ZIP64_ENTRY_LIMIT || directorySize >= ZIP64_LIMIT || directoryOffset >= ZIP64_LIMIT;
+  const records: Buffer[] = [];
+
+  if (zip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    writeUInt64(record, 44, 4); // size of the rest of the record
+    record.writeUInt16LE(45, 12);
+    record.writeUInt16LE(45, 14);
+    writeUInt64(record, count, 24);
+    writeUInt64(record, count, 32);
+    writeUInt64(record, directorySize, 40);
+    writeUInt64(record, directoryOffset, 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    writeUInt64(locator, directoryOffset + directorySize, 8);
+    locator.writeUInt32LE(1, 16); // total disks
+    records.push(record, locator);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(zip64 ? ZIP64_ENTRY_LIMIT : count, 8);
+  end.writeUInt16LE(zip64 ? ZIP64_ENTRY_LIMIT : count, 10);
+  end.writeUInt32LE(zip64 ? ZIP64_LIMIT : directorySize, 12);
+  end.writeUInt32LE(zip64 ? ZIP64_LIMIT : directoryOffset, 16);
+  records.push(end);
+
+  return Buffer.concat(records);
+}
+
+/**
+ * Lay out an uncompressed (stored) zip without writing it. Media is already
+ * compressed, and storing makes every byte offset known up front, so the
+ * archive can be streamed on the fly and resumed with range requests.
+ * Zip64 records are used only where sizes or offsets need them.
+ */
+export async function buildZipLayout(entries: ZipEntry[]): Promise<ZipLayout> {
+  const segments: ZipSegment[] = [];
+  const centralDirectory: Buffer[] = [];
+  const hash = createHash('sha1');
+  let offset = 0;
+  let lastModified = new Date(0);
+
+  const push = (segment: Omit<ZipSegment, 'start'>) => {
+    segments.push({ start: offset, ...segment });
+    offset += segment.length;
+  };
+
+  for (const entry of entries) {
+    let size: number;
+    let mtime: Date;
+    let crc: number;
+    if (entry.data) {
+      size = entry.data.length;
+      mtime = entry.mtime || new Date(0);
+      crc = entry.crc32 ?? updateCrc32(0, entry.data);
+    } else {
+      const stats = await stat(entry.path!);
+      size = stats.size;
+      mtime = entry.mtime || stats.mtime;
+      crc = entry.crc32 ?? await getFileCrc32(entry.path!, stats.size, stats.mtime);
+    }
+    if (mtime > lastModified) lastModified = mtime;
+
+    const name = Buffer.from(entry.name, 'utf8');
+    const { time, date } = toDosDateTime(mtime);
+    const headerOffset = offset;
+    const zip64 = size >= ZIP64_LIMIT || headerOffset >= ZIP64_LIMIT;
+
+    const header = localHeader(name, crc, size, time, date, zip64);
+    push({ length: header.length, data: header });
+    push(entry.data ? { length: size, data: entry.data } : { length: size, path: entry.path });
+
+    centralDirectory.push(centralHeader(name, crc, size, time, date, headerOffset, zip64));
+    hash.update(`${entry.name}\0${size}\0${crc}\0${mtime.getTime()}\n`);
+  }
+
+  const directory = Buffer.concat(centralDirectory);
+  const directoryOffset = offset;
+  push({ length: directory.length, data: directory });
+
+  const end = endOfCentralDirectory(entries.length, directory.length, directoryOffset);
+  push({ length: end.length, data: end });
+
+  return {
+    size: offset,
+    etag: `"zip-${hash.digest('hex').slice(0, 32)}"`,
+    lastModified,
+    segments,
+  };
+}
+
+/**
+ * Bytes `start`..`end` (inclusive) of a laid-out archive, read from the
+ * entries' files as needed.
+ */
+export async function* readZipRange(layout: ZipLayout, start: number, end: number): AsyncGenerator<Buffer> {
+  for (const segment of layout.segments) {
+    const segmentEnd = segment.start + segment.length - 1;
+    if (segment.length === 0 || segmentEnd < start || segment.start > end) continue;
+
+    const from = Math.max(start, segment.start) - segment.start;
+    const to = Math.min(end, segmentEnd) - segment.start;
+    if (segment.data) {
+      yield segment.data.subarray(from, to + 1);
+    } else {
+      for await (const chunk of createReadStream(segment.path!, { start: from, end: to, highWaterMark: 64 * 1024 })) {
+        yield chunk as Buffer;
+      }
+    }
+  }
+}
@@ -8,6 +8,8 @@ const nextConfig = {
   // Experimental features for better performance with large files
   experimental: {
     serverComponentsExternalPackages: [],
+    // Runs instrumentation.ts on startup to reconcile interrupted downloads
+    instrumentationHook: true,
   },
 
   // Increase timeouts for long-running downloads